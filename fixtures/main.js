@@ -0,0 +1 @@
+(self.webpackChunk_twitter_responsive_web=self.webpackChunk_twitter_responsive_web||[]).push([["main"],{12345:e=>{e.exports={queryId:"1VOOyvKkiI3FMmkeDNxM9A",operationName:"UserByScreenName",operationType:"query",metadata:{featureSwitches:["hidden_profile_subscriptions_enabled","profile_label_improvements_pcf_label_in_post_enabled","rweb_tipjar_consumption_enabled","verified_phone_label_enabled"],fieldToggles:["withAuxiliaryUserLabels"]}}},23456:e=>{e.exports={queryId:"E4wA5vo2sjVyvpliUffSCw",operationName:"HomeTimeline",operationType:"query",metadata:{featureSwitches:["rweb_tipjar_consumption_enabled","responsive_web_graphql_exclude_directive_enabled"],fieldToggles:[]}}},34567:e=>{e.exports={operationName:"CreateTweet",queryId:"a1p9RWpkYKBjWv_I3WzS-A",operationType:"mutation",metadata:{featureSwitches:["premium_content_api_read_enabled"],fieldToggles:[]}}},45678:e=>{e.exports={queryId:"Nf-BQ0nl0uIK7Cpb4rDEVg",operationName:"Viewer",operationType:"query",metadata:{featureSwitches:[],fieldToggles:["isDelegate","withAuxiliaryUserLabels"]}}}}]);
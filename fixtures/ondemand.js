@@ -0,0 +1 @@
+"use strict";(self.webpackChunk_twitter_responsive_web=self.webpackChunk_twitter_responsive_web||[]).push([["ondemand.s"],{65221:(e,t,n)=>{n.d(t,{default:()=>s});var r=n(94343);const o=e=>{const t=r.from(e,"base64");return[parseInt(t[1], 16),parseInt(t[5], 16),parseInt(t[9], 16),parseInt(t[13], 16)]},s=e=>o(e).reduce((e,t)=>e*t,1)}}]);
\ No newline at end of file
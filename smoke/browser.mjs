@@ -0,0 +1,19 @@
+/**
+ * Smoke test for browsers
+ *
+ * Run `pnpm smoke:browser` to bundle this file, then serve the repository
+ * root and open smoke/browser.html.
+ */
+import * as lib from "../dist/index.js";
+import { runSmokeChecks } from "./checks.mjs";
+
+const output = document.getElementById("result");
+
+runSmokeChecks(lib).then(
+  (passed) => {
+    output.textContent = `✅ ${navigator.userAgent}: ${passed.join(", ")}`;
+  },
+  (error) => {
+    output.textContent = `❌ ${navigator.userAgent}: ${error}`;
+  }
+);
@@ -0,0 +1,107 @@
+/**
+ * Runtime smoke checks
+ *
+ * Exercises the public API without network access. Every runtime entry
+ * point in this directory passes the built library to runSmokeChecks.
+ */
+import { HOME_HTML, ONDEMAND_JS } from "./fixture.mjs";
+
+const EXPECTED_ANIMATION_KEY =
+  "34cb330ee147ae147ae1805eb851eb851eb805eb851eb851eb80ee147ae147ae1800";
+const EXPECTED_TRANSACTION_ID =
+  "KrJmoNaGrfTAOdUfG9QlSC04hsbllzq0VB7OO+cPLJ2X9vv/lCN8DIJIZuB69aQZXIqsKyr3cs5yJub0mlY6r5dskKw5KQ";
+const PATH = "/graphql/abc/UserByScreenName";
+
+function assertEquals(actual, expected, message) {
+  if (actual !== expected) {
+    throw new Error(`${message}: expected ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Runs the smoke checks against the library
+ * @param lib Module namespace of the built library
+ * @returns Names of the checks that passed
+ */
+export async function runSmokeChecks(lib) {
+  const passed = [];
+
+  const material = lib.createFromSources(HOME_HTML, ONDEMAND_JS);
+  assertEquals(material.animationKey, EXPECTED_ANIMATION_KEY, "animationKey");
+  passed.push("createFromSources");
+
+  // Synchronous generation with a secure random byte after loadWebCrypto
+  if (!globalThis.crypto) {
+    let message = "";
+    try {
+      lib.secureRandomByte();
+    } catch (error) {
+      message = error.message;
+    }
+    assertEquals(message.includes("loadWebCrypto"), true, "secureRandomByte before loadWebCrypto");
+  }
+  await lib.loadWebCrypto();
+  const generator = new lib.TransactionIdGenerator(material.key, material.animationKey, {
+    random: lib.secureRandomByte,
+  });
+  const generatedId = generator.generate("GET", PATH);
+  assertEquals(
+    (await lib.verifyTransactionId(generatedId, "GET", PATH, material.key, material.animationKey)).valid,
+    true,
+    "TransactionIdGenerator with secureRandomByte"
+  );
+  passed.push("loadWebCrypto");
+
+  const transactionId = await lib.generateTransactionId(
+    "GET",
+    PATH,
+    material.key,
+    material.animationKey,
+    { timeNow: 100000, randomByte: 42 }
+  );
+  assertEquals(transactionId, EXPECTED_TRANSACTION_ID, "transactionId");
+  passed.push("generateTransactionId");
+
+  const secureId = await lib.generateTransactionId(
+    "GET",
+    PATH,
+    material.key,
+    material.animationKey,
+    { random: lib.secureRandomByte }
+  );
+  const verification = await lib.verifyTransactionId(
+    secureId,
+    "GET",
+    PATH,
+    material.key,
+    material.animationKey
+  );
+  assertEquals(verification.valid, true, "verifyTransactionId");
+  passed.push("secureRandomByte", "verifyTransactionId");
+
+  // createXFetch with an injected fetch needs no global Request or Headers
+  const calls = [];
+  const injectedFetch = async (input, init) => {
+    calls.push({ input, init });
+    return { status: 200, body: null };
+  };
+  const xFetch = lib.createXFetch({
+    client: new lib.ClientTransaction({ material }),
+    fetch: injectedFetch,
+  });
+  await xFetch(`https://api.x.com${PATH}?variables=%7B%7D`, {
+    method: "post",
+    headers: [["Content-Type", "application/json"]],
+    body: "{}",
+  });
+  await xFetch("https://example.com/", { headers: { accept: "*/*" } });
+  const signed = calls[0].init;
+  assertEquals(signed.method, "post", "createXFetch method");
+  assertEquals(signed.body, "{}", "createXFetch body");
+  assertEquals(signed.headers["content-type"], "application/json", "createXFetch headers");
+  assertEquals(typeof signed.headers["x-client-transaction-id"], "string", "createXFetch transaction ID");
+  assertEquals(calls[1].init.headers.accept, "*/*", "createXFetch pass-through");
+  passed.push("createXFetch");
+
+  return passed;
+}
@@ -0,0 +1,10 @@
+/**
+ * Homepage and ondemand file fixtures for the smoke tests
+ *
+ * The homepage is a minimal synthetic page with the same structure as
+ * X's: the site verification meta tag, four loading-x-anim frames and
+ * the ondemand chunk hash.
+ */
+export const HOME_HTML = "<!DOCTYPE html><html><head><meta name=\"twitter-site-verification\" content=\"mEyK/KyH3uoT/zUx/g9iBxKs7M+9EJ5+NOQRzSUGt73c0dW+CVYmqGJMylDfjjN2\"></head><body><svg id=\"loading-x-anim-0\" width=\"0\" height=\"0\"><g><path d=\"M1 2\"></path><path d=\"M 10,30 C 146,106 76,215 153,90 h 183 s 150,102 146,60 C 22,151 134,116 75,115 h 20 s 197,51 30,217 C 154,158 238,63 122,100 h 161 s 174,59 49,158 C 0,72 198,196 110,93 h 130 s 65,74 215,72 C 152,15 224,175 114,44 h 211 s 73,56 116,198 C 93,0 107,27 253,71 h 147 s 151,230 184,249 C 65,58 126,100 201,129 h 241 s 199,129 234,99 C 149,227 118,86 190,230 h 223 s 46,62 87,12 C 34,169 208,60 141,73 h 47 s 153,164 234,233 C 62,174 30,210 85,79 h 177 s 28,216 90,70 C 156,121 142,238 115,251 h 19 s 149,166 41,155 C 196,149 13,229 121,110 h 211 s 193,40 230,83 C 24,56 16,195 196,148 h 3 s 104,208 113,46 C 56,41 153,148 79,168 h 31 s 218,27 253,35 C 66,22 176,111 173,8 h 15 s 0,30 126,15 C 252,80 39,54 82,119 h 131 s 250,181 152,40\"></path></g></svg><svg id=\"loading-x-anim-1\" width=\"0\" height=\"0\"><g><path d=\"M1 2\"></path><path d=\"M 10,30 C 72,203 192,127 22,185 h 190 s 15,28 81,56 C 66,163 142,218 138,220 h 129 s 33,164 131,135 C 198,252 158,176 225,83 h 234 s 127,224 245,239 C 221,140 9,180 21,154 h 8 s 244,3 217,215 C 11,112 26,132 13,87 h 53 s 108,200 199,236 C 92,210 138,131 32,146 h 134 s 24,69 2,43 C 81,78 135,252 135,148 h 232 s 238,238 143,190 C 22,38 121,238 166,5 h 49 s 192,200 185,202 C 104,10 55,171 176,114 h 158 s 59,74 3,224 C 240,25 100,85 197,225 h 29 s 53,28 173,81 C 130,251 63,174 252,247 h 165 s 175,149 213,164 C 140,203 131,27 71,255 h 220 s 255,168 37,169 C 69,254 162,50 243,132 h 44 s 192,10 10,92 C 176,207 32,148 155,140 h 40 s 126,95 39,170 C 75,36 27,215 130,216 h 224 s 241,49 245,49 C 117,77 151,25 22,113 h 43 s 244,168 174,15\"></path></g></svg><svg id=\"loading-x-anim-2\" width=\"0\" height=\"0\"><g><path d=\"M1 2\"></path><path d=\"M 10,30 C 153,117 48,33 163,16 h 155 s 219,168 144,33 C 57,26 27,0 8,145 h 28 s 116,9 231,39 C 85,28 254,193 2,113 h 213 s 47,51 236,247 C 122,194 155,212 170,172 h 91 s 202,37 93,251 C 238,73 42,81 144,178 h 98 s 172,229 155,224 C 173,120 34,231 103,81 h 32 s 72,193 231,151 C 165,200 67,226 140,105 h 0 s 63,130 93,173 C 242,77 5,101 2,73 h 15 s 37,188 41,40 C 153,42 160,251 234,187 h 94 s 157,177 169,176 C 186,6 12,7 99,66 h 242 s 73,234 228,94 C 169,48 82,233 185,142 h 159 s 132,99 74,89 C 254,10 104,195 7,237 h 187 s 187,103 18,157 C 114,32 124,38 67,214 h 236 s 76,41 56,17 C 182,150 172,85 141,9 h 123 s 142,89 1,187 C 103,38 97,127 83,43 h 85 s 94,187 224,170 C 115,79 239,29 41,195 h 141 s 175,2 59,171\"></path></g></svg><svg id=\"loading-x-anim-3\" width=\"0\" height=\"0\"><g><path d=\"M1 2\"></path><path d=\"M 10,30 C 78,198 156,207 63,130 h 85 s 235,207 173,239 C 94,159 111,14 41,9 h 104 s 188,169 79,237 C 200,206 65,97 154,161 h 0 s 194,106 70,141 C 76,32 10,81 108,97 h 43 s 26,124 32,81 C 100,97 104,176 105,63 h 185 s 245,197 52,139 C 103,217 162,205 8,48 h 17 s 26,118 163,202 C 200,96 128,125 156,13 h 50 s 14,38 193,123 C 204,173 132,63 12,195 h 69 s 89,52 121,99 C 169,92 104,5 2,116 h 48 s 139,133 103,180 C 163,101 209,128 37,151 h 63 s 145,233 136,93 C 161,155 103,130 156,35 h 218 s 10,222 220,100 C 183,234 123,95 0,20 h 111 s 214,163 231,236 C 235,152 244,52 242,32 h 208 s 207,145 218,188 C 54,97 211,167 99,241 h 161 s 35,44 169,116 C 47,203 76,27 205,180 h 25 s 85,78 228,64 C 78,23 24,40 172,186 h 98 s 156,221 125,204\"></path></g></svg><script>var m={'ondemand.s':'abc123'};document.cookie=\"gt=1234567890; Max-Age=10\";</script></body></html>";
+
+export const ONDEMAND_JS = "function f(a){return [parseInt(a[12], 16),parseInt(a[3], 16),parseInt(a[41], 16),parseInt(a[7], 16)]}";
@@ -0,0 +1,25 @@
+/**
+ * Smoke test for Node.js, Deno and Bun
+ *
+ * Run `pnpm build` first, then:
+ *   node smoke/node.mjs
+ *   deno run --allow-read --allow-env smoke/node.mjs
+ *   bun smoke/node.mjs
+ */
+import * as lib from "../dist/index.js";
+import { runSmokeChecks } from "./checks.mjs";
+
+const runtime =
+  typeof Deno !== "undefined"
+    ? `Deno ${Deno.version.deno}`
+    : typeof Bun !== "undefined"
+      ? `Bun ${Bun.version}`
+      : `Node.js ${process.version}`;
+
+try {
+  const passed = await runSmokeChecks(lib);
+  console.log(`✅ ${runtime}: ${passed.join(", ")}`);
+} catch (error) {
+  console.error(`❌ ${runtime}:`, error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,19 @@
+/**
+ * Smoke test for Cloudflare Workers
+ *
+ * Run `pnpm build` first, then `npx wrangler dev smoke/worker.mjs` and
+ * open the printed URL. Responds with 200 when every check passes.
+ */
+import * as lib from "../dist/index.js";
+import { runSmokeChecks } from "./checks.mjs";
+
+export default {
+  async fetch() {
+    try {
+      const passed = await runSmokeChecks(lib);
+      return Response.json({ ok: true, passed });
+    } catch (error) {
+      return Response.json({ ok: false, error: String(error) }, { status: 500 });
+    }
+  },
+};
@@ -0,0 +1,78 @@
+/**
+ * Benchmarks for transaction ID generation
+ *
+ * Compares generateTransactionId with the prepared TransactionIdGenerator
+ * using fixed key material, so no network access is needed.
+ *
+ * Run with: pnpm bench
+ */
+import { generateTransactionId, TransactionIdGenerator } from "./index";
+import { encodeBase64 } from "./runtime";
+
+const ITERATIONS = 20000;
+const BATCH_SIZE = 100;
+const PATH = "/graphql/1VOOyvKkiI3FMmkeDNxM9A/UserByScreenName";
+
+const key = encodeBase64(Uint8Array.from({ length: 48 }, (_, i) => (i * 37) % 256));
+const animationKey = "34cb330ee147ae147ae1805eb851eb851eb805eb851eb851eb80ee147ae147ae1800";
+
+/**
+ * Runs a benchmark and prints the throughput
+ * @param name Benchmark name
+ * @param run Function generating the given number of IDs
+ * @returns Operations per second
+ */
+async function bench(
+  name: string,
+  run: (iterations: number) => unknown | Promise<unknown>
+): Promise<number> {
+  // Warm up
+  await run(Math.floor(ITERATIONS / 10));
+
+  const start = performance.now();
+  await run(ITERATIONS);
+  const elapsed = performance.now() - start;
+  const opsPerSecond = (ITERATIONS / elapsed) * 1000;
+
+  console.log(
+    `${name.padEnd(44)} ${opsPerSecond.toFixed(0).padStart(10)} ops/s  ${(
+      (elapsed * 1000) /
+      ITERATIONS
+    ).toFixed(2)} µs/op`
+  );
+  return opsPerSecond;
+}
+
+async function main() {
+  const generator = new TransactionIdGenerator(key, animationKey);
+
+  const baseline = await bench("generateTransactionId (async)", async (n) => {
+    for (let i = 0; i < n; i++) {
+      await generateTransactionId("GET", PATH, key, animationKey);
+    }
+  });
+
+  const sync = await bench("TransactionIdGenerator.generate", (n) => {
+    for (let i = 0; i < n; i++) {
+      generator.generate("GET", PATH);
+    }
+  });
+
+  const requests = Array.from({ length: BATCH_SIZE }, () => ({
+    method: "GET",
+    path: PATH,
+  }));
+  const batch = await bench(
+    `TransactionIdGenerator.generateBatch(${BATCH_SIZE})`,
+    (n) => {
+      for (let i = 0; i < n; i += BATCH_SIZE) {
+        generator.generateBatch(requests);
+      }
+    }
+  );
+
+  console.log(`\ngenerate:      ${(sync / baseline).toFixed(2)}x`);
+  console.log(`generateBatch: ${(batch / baseline).toFixed(2)}x`);
+}
+
+main();
@@ -0,0 +1,157 @@
+/**
+ * Persistent cache adapters for key material
+ *
+ * This module defines the interface ClientTransaction uses to persist key
+ * material between processes, and ships in-memory and generic key-value
+ * store adapters. The JSON file adapter is Node.js-only and lives in the
+ * node entry. Values are strings; entries carry their own expiry so stores
+ * without native TTL support behave the same.
+ */
+
+/**
+ * Stores string values under a key for a limited time
+ */
+export interface CacheAdapter {
+  /** Returns the value stored under a key, or null on a miss or after expiry */
+  get(key: string): Promise<string | null>;
+  /** Stores a value for ttl milliseconds (Infinity for no expiry) */
+  set(key: string, value: string, ttl: number): Promise<void>;
+  /** Removes the value stored under a key */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Key-value store shaped like Workers KV (put) or node-redis (set with PX)
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null | undefined>;
+  put?(key: string, value: string, options?: { expirationTtl?: number }): Promise<unknown>;
+  set?(key: string, value: string, options?: { PX?: number }): Promise<unknown>;
+  delete?(key: string): Promise<unknown>;
+  del?(key: string): Promise<unknown>;
+}
+
+/**
+ * Options for createKeyValueCache
+ */
+export interface KeyValueCacheOptions {
+  /** Prefix added to every key (defaults to none) */
+  prefix?: string;
+}
+
+/**
+ * Value stored with its expiry
+ */
+export interface CacheEntry {
+  value: string;
+  /** Unix time in milliseconds the entry expires, or null for no expiry */
+  expiresAt: number | null;
+}
+
+// Workers KV rejects expirationTtl values below 60 seconds
+const MIN_KV_EXPIRATION_TTL = 60;
+
+/**
+ * Creates a cache that keeps values in memory
+ *
+ * Useful to share key material between clients in one process, or within
+ * one Workers isolate when created at module scope.
+ *
+ * @returns In-memory cache adapter
+ */
+function createMemoryCache(): CacheAdapter {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry || isExpired(entry)) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttl) {
+      entries.set(key, toEntry(value, ttl));
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a cache backed by a key-value store such as Workers KV or Redis
+ *
+ * The store's own expiry is set where it supports one, and the expiry is
+ * also stored with the value for stores that do not.
+ *
+ * @param store Key-value store
+ * @param options Optional key prefix
+ * @returns Key-value cache adapter
+ */
+function createKeyValueCache(
+  store: KeyValueStore,
+  options: KeyValueCacheOptions = {}
+): CacheAdapter {
+  const prefix = options.prefix ?? "";
+  if (!store.put && !store.set) {
+    throw new Error("Key-value store must have a put or set method");
+  }
+
+  return {
+    async get(key) {
+      const raw = await store.get(prefix + key);
+      if (!raw) {
+        return null;
+      }
+      try {
+        const entry = JSON.parse(raw) as CacheEntry;
+        return typeof entry.value === "string" && !isExpired(entry) ? entry.value : null;
+      } catch {
+        return null;
+      }
+    },
+    async set(key, value, ttl) {
+      const raw = JSON.stringify(toEntry(value, ttl));
+      const finite = Number.isFinite(ttl);
+      if (store.put) {
+        await store.put(
+          prefix + key,
+          raw,
+          finite
+            ? { expirationTtl: Math.max(MIN_KV_EXPIRATION_TTL, Math.ceil(ttl / 1000)) }
+            : {}
+        );
+      } else {
+        await store.set!(prefix + key, raw, finite ? { PX: Math.max(1, Math.ceil(ttl)) } : {});
+      }
+    },
+    async delete(key) {
+      await (store.delete ?? store.del)?.call(store, prefix + key);
+    },
+  };
+}
+
+/**
+ * Wraps a value with its expiry
+ * @param value Value to store
+ * @param ttl Time to live in milliseconds
+ * @returns Cache entry
+ */
+function toEntry(value: string, ttl: number): CacheEntry {
+  return {
+    value,
+    expiresAt: Number.isFinite(ttl) ? Date.now() + ttl : null,
+  };
+}
+
+/**
+ * Checks whether a cache entry has expired
+ * @param entry Cache entry
+ * @returns True if the entry must not be used
+ */
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= Date.now();
+}
+
+export { createMemoryCache, createKeyValueCache, toEntry, isExpired };
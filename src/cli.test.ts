@@ -0,0 +1,167 @@
+/**
+ * Tests for the command-line interface
+ *
+ * Each case runs src/cli.ts in a child process against the fixtures in
+ * fixtures/ and checks the JSON it prints and the documented exit codes:
+ * 0 success, 1 usage error or unexpected failure, 2 network failure and
+ * 3 extraction failure. Network commands run with a preloaded fetch that
+ * always rejects, so no case touches the network.
+ *
+ * Run with: pnpm test:cli
+ */
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const CLI_PATH = fileURLToPath(new URL("./cli.ts", import.meta.url));
+const HOME_PAGE_PATH = fileURLToPath(new URL("../fixtures/home.html", import.meta.url));
+const ONDEMAND_PATH = fileURLToPath(new URL("../fixtures/ondemand.js", import.meta.url));
+const OFFLINE_FETCH = 'data:text/javascript,globalThis.fetch=async()=>{throw new Error("offline")}';
+const PATH = "/graphql/1VOOyvKkiI3FMmkeDNxM9A/UserByScreenName";
+// Transaction ID of PATH for the fixture keys at time 0 with random byte 0
+const EXPECTED_TRANSACTION_ID =
+  "AF6/cCHSGy4H8uNl+Ua/pgDZTUUwnpZKGeDpcGKAD0VV7rGkG5IOraNFvVGlOgsxnQAAAABG6HQp1Wj/6q+vsTeVHm/NAw";
+
+/**
+ * Output of one CLI run
+ */
+interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Simple assertion function replacing an external assertion library
+ */
+function assertEquals(actual: any, expected: any, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(message || `Assertion failed: expected ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Runs the CLI with arguments and resolves with its exit code and output
+ * @param args Command-line arguments
+ * @param offline Whether to replace fetch with one that always rejects
+ */
+function runCli(args: string[], offline = false): Promise<CliResult> {
+  const preload = offline ? ["--import", OFFLINE_FETCH] : [];
+  return new Promise((resolve) => {
+    execFile(
+      process.execPath,
+      ["--import", "tsx", ...preload, CLI_PATH, ...args],
+      { timeout: 30_000 },
+      (error, stdout, stderr) => {
+        const code = error ? (typeof error.code === "number" ? error.code : -1) : 0;
+        resolve({ code, stdout, stderr });
+      }
+    );
+  });
+}
+
+/**
+ * Parses the JSON error line the CLI prints first on stderr
+ */
+function readError(result: CliResult) {
+  return JSON.parse(result.stderr.split("\n")[0]);
+}
+
+async function testSuccess() {
+  const help = await runCli([]);
+  assertEquals(help.code, 0, "help exit code");
+  assertEquals(help.stdout.startsWith("Usage: twitter-transaction-id"), true, "help prints usage");
+
+  const extracted = await runCli(["from-html", HOME_PAGE_PATH, "--ondemand", ONDEMAND_PATH]);
+  assertEquals(extracted.code, 0, `from-html exit code: ${extracted.stderr}`);
+  const snapshot = JSON.parse(extracted.stdout);
+  assertEquals(snapshot.key, "Xr9wIdIbLgfy42X5Rr+mANlNRTCelkoZ4OlwYoAPRVXusaQbkg6to0W9UaU6CzGd", "from-html key");
+  assertEquals(snapshot.animationKey, "04300ca3d70a3d70a409eb851eb851eb809eb851eb851eb80ca3d70a3d70a400", "from-html animation key");
+  assertEquals(snapshot.rowIndex, 1, "from-html row index");
+  assertEquals(snapshot.keyByteIndices.join(","), "5,9,13", "from-html key byte indices");
+  assertEquals(snapshot.sourceUrl, `file:${HOME_PAGE_PATH}`, "from-html source");
+
+  // Keys saved by from-html generate the same IDs as the conformance vectors
+  const directory = await mkdtemp(join(tmpdir(), "twitter-transaction-id-cli-"));
+  const keysPath = join(directory, "keys.json");
+  let generated: CliResult;
+  try {
+    await writeFile(keysPath, extracted.stdout);
+    generated = await runCli([
+      "generate", "get", PATH, "--keys", keysPath, "--time-now", "0", "--random-byte", "0",
+    ]);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+  assertEquals(generated.code, 0, `generate exit code: ${generated.stderr}`);
+  const { transactionId, method } = JSON.parse(generated.stdout);
+  assertEquals(transactionId, EXPECTED_TRANSACTION_ID, "generate transaction ID");
+  assertEquals(method, "GET", "generate upper-cases the method");
+
+  const decoded = await runCli(["decode", transactionId]);
+  assertEquals(decoded.code, 0, `decode exit code: ${decoded.stderr}`);
+  const fields = JSON.parse(decoded.stdout);
+  assertEquals(fields.randomByte, 0, "decode random byte");
+  assertEquals(fields.timeNow, 0, "decode time");
+  assertEquals(fields.additionalNumber, 3, "decode additional number");
+  assertEquals(Buffer.from(fields.keyBytes).toString("base64"), snapshot.key, "decode key bytes");
+  console.log("from-html, generate and decode print JSON and exit with 0");
+}
+
+async function testUsageErrors() {
+  const cases: { args: string[]; message: string }[] = [
+    { args: ["from-html", HOME_PAGE_PATH], message: "from-html requires <file> and --ondemand <file>" },
+    { args: ["decode"], message: "decode requires <id>" },
+    { args: ["generate", "GET"], message: "generate requires <METHOD> and <path>" },
+    { args: ["generate", "GET", PATH, "--time-now", "soon"], message: "--time-now must be a non-negative integer" },
+    { args: ["from-html", HOME_PAGE_PATH, "--ondemand"], message: "Missing value for --ondemand" },
+    { args: ["rotate"], message: "Unknown command: rotate" },
+  ];
+  for (const { args, message } of cases) {
+    const result = await runCli(args, true);
+    const label = args.join(" ");
+    assertEquals(result.code, 1, `${label}: exit code`);
+    const error = readError(result);
+    assertEquals(error.error, "UsageError", `${label}: error name`);
+    assertEquals(error.message, message, `${label}: error message`);
+    assertEquals(result.stderr.includes("Usage: twitter-transaction-id"), true, `${label}: prints usage`);
+  }
+
+  // Unexpected failures share exit code 1, without the usage text
+  const malformed = await runCli(["decode", "AAAA"]);
+  assertEquals(malformed.code, 1, "malformed ID exit code");
+  assertEquals(readError(malformed).message, "Transaction ID is too short: 3 bytes", "malformed ID message");
+  assertEquals(malformed.stderr.includes("Usage:"), false, "malformed ID prints no usage");
+  console.log("Usage errors and unexpected failures exit with 1");
+}
+
+async function testFailures() {
+  // Network failures exit with 2
+  const keys = await runCli(["keys"], true);
+  assertEquals(keys.code, 2, "keys exit code without network");
+  const keysError = readError(keys);
+  assertEquals(keysError.error, "MigrationError", "keys error name");
+  assertEquals(keysError.stage, "migration", "keys error stage");
+
+  // Extraction failures exit with 3 and name the failing stage
+  const noKey = await runCli(["from-html", ONDEMAND_PATH, "--ondemand", ONDEMAND_PATH]);
+  assertEquals(noKey.code, 3, "page without a key exit code");
+  assertEquals(readError(noKey).stage, "key", "page without a key stage");
+
+  const noIndices = await runCli(["from-html", HOME_PAGE_PATH, "--ondemand", HOME_PAGE_PATH]);
+  assertEquals(noIndices.code, 3, "ondemand file without indices exit code");
+  assertEquals(readError(noIndices).stage, "indices", "ondemand file without indices stage");
+  console.log("Network failures exit with 2 and extraction failures with 3");
+}
+
+try {
+  await testSuccess();
+  await testUsageErrors();
+  await testFailures();
+  console.log("✅ Test passed!");
+} catch (error) {
+  console.error("❌ Test failed:", error);
+  process.exit(1);
+}
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for X client transaction ID generation
+ *
+ * Prints machine-readable JSON to stdout. Errors are printed as JSON to
+ * stderr and the exit code tells network failures apart from extraction
+ * failures.
+ */
+import { readFile } from "node:fs/promises";
+import {
+  create,
+  createFromSources,
+  decodeTransactionId,
+  generateTransactionId,
+} from "./transaction";
+import { fetchHomePage } from "./utils";
+import { exportSnapshot, validateSnapshot } from "./snapshot";
+import TransactionIdServer from "./server";
+import {
+  MigrationError,
+  OnDemandFetchError,
+  TransactionIdError,
+} from "./errors";
+
+const EXIT_USAGE = 1;
+const EXIT_NETWORK = 2;
+const EXIT_EXTRACTION = 3;
+
+const USAGE = `Usage: twitter-transaction-id <command> [options]
+
+Commands:
+  keys                                  Fetch key material from x.com
+  generate <METHOD> <path> [--keys <file>] [--time-now <seconds>] [--random-byte <byte>]
+                                        Generate a transaction ID from fresh or saved keys
+  from-html <file> --ondemand <file>    Extract key material from saved files offline
+  decode <id>                           Decode a transaction ID
+  serve [--port <port>] [--host <host>] [--refresh-interval <ms>] [--retry-delay <ms>]
+                                        Serve transaction IDs over HTTP
+
+Exit codes:
+  0  success
+  1  usage error or unexpected failure
+  2  network failure
+  3  extraction failure
+`;
+
+/**
+ * Thrown for invalid command-line arguments
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Splits command-line arguments into positionals and --name value options
+ * @param args Arguments following the command
+ * @returns Positional arguments and options
+ */
+function parseArgs(args: string[]): {
+  positionals: string[];
+  options: Record<string, string>;
+} {
+  const positionals: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith("--")) {
+      const [name, inlineValue] = arg.slice(2).split("=", 2);
+      const value = inlineValue ?? args[++i];
+      if (value === undefined) {
+        throw new UsageError(`Missing value for --${name}`);
+      }
+      options[name] = value;
+    } else {
+      positionals.push(arg);
+    }
+  }
+  return { positionals, options };
+}
+
+/**
+ * Parses an optional integer option
+ * @param value Option value
+ * @param name Option name used in error messages
+ * @returns Parsed integer, or undefined if not given
+ */
+function parseIntegerOption(
+  value: string | undefined,
+  name: string
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`--${name} must be a non-negative integer`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Fetches key material from x.com
+ * @returns Key material snapshot
+ */
+async function fetchKeys() {
+  const { html, clockOffset, finalUrl } = await fetchHomePage();
+  const material = await create(html);
+  // Prefer the offset measured against x.com over the ondemand file's CDN
+  return exportSnapshot(
+    clockOffset === null ? material : { ...material, clockOffset },
+    finalUrl
+  );
+}
+
+/**
+ * Runs a command and returns its JSON output
+ * @param command Command name
+ * @param args Arguments following the command
+ * @returns Value to print as JSON
+ */
+async function run(command: string, args: string[]): Promise<unknown> {
+  const { positionals, options } = parseArgs(args);
+
+  switch (command) {
+    case "keys":
+      return fetchKeys();
+
+    case "generate": {
+      const [method, path] = positionals;
+      if (!method || !path) {
+        throw new UsageError("generate requires <METHOD> and <path>");
+      }
+      // Options are checked before any keys are fetched
+      const timeNow = parseIntegerOption(options["time-now"], "time-now");
+      const randomByte = parseIntegerOption(options["random-byte"], "random-byte");
+      const material = options.keys
+        ? validateSnapshot(JSON.parse(await readFile(options.keys, "utf8")))
+        : await fetchKeys();
+      const transactionId = await generateTransactionId(
+        method.toUpperCase(),
+        path,
+        material.key,
+        material.animationKey,
+        { timeNow, randomByte, clockOffset: material.clockOffset }
+      );
+      return { transactionId, method: method.toUpperCase(), path };
+    }
+
+    case "from-html": {
+      const [htmlFile] = positionals;
+      if (!htmlFile || !options.ondemand) {
+        throw new UsageError("from-html requires <file> and --ondemand <file>");
+      }
+      const [html, onDemandJs] = await Promise.all([
+        readFile(htmlFile, "utf8"),
+        readFile(options.ondemand, "utf8"),
+      ]);
+      return exportSnapshot(createFromSources(html, onDemandJs), `file:${htmlFile}`);
+    }
+
+    case "serve": {
+      const server = new TransactionIdServer({
+        port: parseIntegerOption(options.port, "port"),
+        host: options.host,
+        refreshInterval: parseIntegerOption(
+          options["refresh-interval"],
+          "refresh-interval"
+        ),
+        retryDelay: parseIntegerOption(options["retry-delay"], "retry-delay"),
+      });
+      const address = await server.listen();
+      return { listening: `http://${address.address}:${address.port}` };
+    }
+
+    case "decode": {
+      const [transactionId] = positionals;
+      if (!transactionId) {
+        throw new UsageError("decode requires <id>");
+      }
+      return decodeTransactionId(transactionId);
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+/**
+ * Maps an error to the process exit code
+ * @param error Error thrown by a command
+ * @returns Exit code
+ */
+function exitCode(error: unknown): number {
+  if (error instanceof MigrationError || error instanceof OnDemandFetchError) {
+    return EXIT_NETWORK;
+  }
+  if (error instanceof TransactionIdError) {
+    return EXIT_EXTRACTION;
+  }
+  return EXIT_USAGE;
+}
+
+/**
+ * Entry point
+ * @param argv Command-line arguments without the node executable and script
+ * @returns Exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (!command || command === "--help" || command === "-h") {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  try {
+    const result = await run(command, args);
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return 0;
+  } catch (error) {
+    const details =
+      error instanceof TransactionIdError
+        ? {
+            error: error.name,
+            message: error.message,
+            stage: error.stage,
+            status: error.status,
+            url: error.url,
+          }
+        : {
+            error: error instanceof Error ? error.name : "Error",
+            message: error instanceof Error ? error.message : String(error),
+          };
+    process.stderr.write(`${JSON.stringify(details)}\n`);
+    if (error instanceof UsageError) {
+      process.stderr.write(USAGE);
+    }
+    return exitCode(error);
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
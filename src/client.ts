@@ -0,0 +1,274 @@
+/**
+ * Stateful client transaction ID generator
+ *
+ * This module provides a class that owns the key material extracted from
+ * X's homepage, initialises it lazily and refreshes it when it expires.
+ */
+import {
+  create,
+  generateTransactionId,
+  GenerateOptions,
+  KeyMaterial,
+} from "./transaction";
+import { fetchHomePage } from "./utils";
+import { RequestOptions, X_BASE_URL } from "./request";
+import { CacheAdapter } from "./cache";
+import { exportSnapshot, toKeyMaterial, validateSnapshot } from "./snapshot";
+import { Logger } from "./errors";
+import type { HtmlDocument } from "./html";
+
+const DEFAULT_TTL = 60 * 60 * 1000;
+const DEFAULT_CACHE_KEY = "twitter-transaction-id:key-material";
+
+/**
+ * Options for ClientTransaction
+ */
+export interface ClientTransactionOptions {
+  /** Time in milliseconds before key material is refreshed (defaults to one hour) */
+  ttl?: number;
+  /** Loads the homepage HTML or document (defaults to fetchHomePage) */
+  loadDocument?: () => Promise<string | HtmlDocument>;
+  /** Request options for the homepage and ondemand file fetches */
+  request?: RequestOptions;
+  /** Receives diagnostic messages */
+  logger?: Logger;
+  /** Default clock and random source for generated transaction IDs */
+  generate?: GenerateOptions;
+  /** Key material to start with instead of fetching it on first use */
+  material?: KeyMaterial;
+  /** Unix time in milliseconds the initial material was created (defaults to now) */
+  createdAt?: number;
+  /** Return expired material while refreshing it in the background */
+  staleWhileRefresh?: boolean;
+  /** Persistent cache consulted before fetching, and updated after */
+  cache?: CacheAdapter;
+  /** Key the key material is cached under */
+  cacheKey?: string;
+  /** Correct generated timestamps by the measured server clock offset (defaults to true) */
+  syncClock?: boolean;
+}
+
+/**
+ * Generates transaction IDs from cached key material
+ *
+ * Key material is fetched on first use and refreshed once it is older
+ * than the configured TTL. Concurrent callers share a single in-flight
+ * initialisation. With staleWhileRefresh, callers only wait for the first
+ * initialisation and later refreshes happen in the background. With a
+ * cache, material cached by another process is reused while it is newer
+ * than the current material and not yet expired.
+ */
+class ClientTransaction {
+  private ttl: number;
+  private loadDocument: () => Promise<string | HtmlDocument>;
+  private requestOptions: RequestOptions;
+  private generateOptions: GenerateOptions;
+  private logger?: Logger;
+  private staleWhileRefresh: boolean;
+  private cache?: CacheAdapter;
+  private cacheKey: string;
+  private syncClock: boolean;
+  private migrationClockOffset: number | null = null;
+  private migrationFinalUrl: string | null = null;
+  private material: KeyMaterial | null = null;
+  private createdAt = 0;
+  private pending: Promise<KeyMaterial> | null = null;
+
+  /**
+   * Creates a new ClientTransaction instance
+   * @param options Optional client options
+   */
+  constructor(options: ClientTransactionOptions = {}) {
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.requestOptions = options.request ?? {};
+    this.generateOptions = options.generate ?? {};
+    this.logger = options.logger;
+    this.staleWhileRefresh = options.staleWhileRefresh ?? false;
+    this.cache = options.cache;
+    this.cacheKey = options.cacheKey ?? DEFAULT_CACHE_KEY;
+    this.syncClock = options.syncClock ?? true;
+    if (options.material) {
+      this.material = options.material;
+      this.createdAt = options.createdAt ?? Date.now();
+    }
+    this.loadDocument =
+      options.loadDocument ??
+      (async () => {
+        const { html, clockOffset, finalUrl } = await fetchHomePage(this.requestOptions);
+        this.migrationClockOffset = clockOffset;
+        this.migrationFinalUrl = finalUrl;
+        return html;
+      });
+  }
+
+  /**
+   * Whether key material is loaded and not yet expired
+   */
+  get isFresh(): boolean {
+    return this.material !== null && Date.now() - this.createdAt < this.ttl;
+  }
+
+  /**
+   * Time in milliseconds since the key material was created, or null if not loaded
+   */
+  get age(): number | null {
+    return this.material ? Date.now() - this.createdAt : null;
+  }
+
+  /**
+   * Milliseconds the server clock was ahead of the local clock when the key
+   * material was fetched, or null if it was not measured
+   */
+  get clockOffset(): number | null {
+    return this.material?.clockOffset ?? null;
+  }
+
+  /**
+   * Returns the loaded key material without initialising or refreshing it
+   * @returns Key material, or null if not loaded
+   */
+  peek(): KeyMaterial | null {
+    return this.material;
+  }
+
+  /**
+   * Returns the current key material, initialising or refreshing it if needed
+   * @returns Key material
+   */
+  async getKeyMaterial(): Promise<KeyMaterial> {
+    if (this.material) {
+      if (this.isFresh) {
+        return this.material;
+      }
+      if (this.staleWhileRefresh) {
+        this.refresh().catch((error) => {
+          this.logger?.error?.("Background refresh failed", error);
+        });
+        return this.material;
+      }
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Fetches new key material, sharing any refresh already in flight
+   * @returns Key material
+   */
+  refresh(): Promise<KeyMaterial> {
+    if (!this.pending) {
+      this.pending = this.load().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Generates a transaction ID using the cached key material
+   * @param method HTTP method (GET, POST, etc.)
+   * @param path API endpoint path
+   * @param timeNow Optional timestamp, or options overriding the defaults
+   * @returns Base64 encoded transaction ID
+   */
+  async generateTransactionId(
+    method: string,
+    path: string,
+    timeNow?: number | GenerateOptions
+  ): Promise<string> {
+    const { key, animationKey, clockOffset } = await this.getKeyMaterial();
+    const options: GenerateOptions = {
+      ...this.generateOptions,
+      ...(typeof timeNow === "number" ? { timeNow } : timeNow),
+    };
+    // A caller-supplied clock or offset replaces the measured offset
+    if (this.syncClock && options.clockOffset === undefined && !options.clock) {
+      options.clockOffset = clockOffset;
+    }
+    return generateTransactionId(method, path, key, animationKey, options);
+  }
+
+  /**
+   * Loads key material from the cache, or from the homepage on a miss
+   * @returns Key material
+   * @private
+   */
+  private async load(): Promise<KeyMaterial> {
+    const cached = await this.readCache();
+    if (cached) {
+      this.material = cached.material;
+      this.createdAt = cached.createdAt;
+      return cached.material;
+    }
+
+    this.migrationClockOffset = null;
+    this.migrationFinalUrl = null;
+    const homePage = await this.loadDocument();
+    let material = await create(homePage, {
+      ...this.requestOptions,
+      logger: this.logger,
+    });
+    // Prefer the offset measured against x.com over the ondemand file's CDN
+    if (this.migrationClockOffset !== null) {
+      material = { ...material, clockOffset: this.migrationClockOffset };
+    }
+    this.material = material;
+    this.createdAt = Date.now();
+    await this.writeCache(material);
+    return material;
+  }
+
+  /**
+   * Reads key material from the cache
+   * @returns Cached key material and its creation time, or null if unusable
+   * @private
+   */
+  private async readCache(): Promise<{ material: KeyMaterial; createdAt: number } | null> {
+    if (!this.cache) {
+      return null;
+    }
+    try {
+      const raw = await this.cache.get(this.cacheKey);
+      if (!raw) {
+        return null;
+      }
+      const { capturedAt, ...snapshot } = validateSnapshot(JSON.parse(raw));
+      const createdAt = Date.parse(capturedAt);
+      // Never go back to the material being refreshed, or older
+      if (createdAt <= this.createdAt || Date.now() - createdAt >= this.ttl) {
+        return null;
+      }
+      this.logger?.debug?.("Using cached key material", { capturedAt });
+      return { material: toKeyMaterial(snapshot), createdAt };
+    } catch (error) {
+      this.logger?.warn?.("Ignoring unusable cached key material", error);
+      return null;
+    }
+  }
+
+  /**
+   * Writes key material to the cache
+   *
+   * The snapshot records the homepage URL that was actually fetched, or
+   * https://x.com when a custom loadDocument supplied the page.
+   *
+   * @param material Key material to cache
+   * @private
+   */
+  private async writeCache(material: KeyMaterial): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+    try {
+      const snapshot = exportSnapshot(
+        material,
+        this.migrationFinalUrl ?? X_BASE_URL,
+        new Date(this.createdAt)
+      );
+      await this.cache.set(this.cacheKey, JSON.stringify(snapshot), this.ttl);
+    } catch (error) {
+      this.logger?.warn?.("Failed to cache key material", error);
+    }
+  }
+}
+
+export default ClientTransaction;
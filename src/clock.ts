@@ -0,0 +1,39 @@
+/**
+ * Server clock synchronization
+ *
+ * This module estimates the offset between the local clock and X's servers
+ * from the Date header of a response, so transaction IDs can carry the
+ * server's time on machines whose clocks drift.
+ */
+
+/**
+ * Estimates how far the server's clock is ahead of the local clock
+ *
+ * The server time is assumed to be read halfway through the round trip.
+ * The Date header is truncated to whole seconds, so half a second is added
+ * to centre the estimate. Responses served from a cache (a non-zero Age
+ * header) may carry the origin's Date and are ignored.
+ *
+ * @param response Response carrying a Date header
+ * @param requestStart Local Unix time in milliseconds the request was sent
+ * @param responseEnd Local Unix time in milliseconds the response arrived
+ * @returns Offset in milliseconds to add to the local clock, or null without a usable Date header
+ */
+function measureClockOffset(
+  response: Response,
+  requestStart: number,
+  responseEnd: number = Date.now()
+): number | null {
+  const age = parseInt(response.headers.get("age") ?? "0", 10);
+  if (age > 0) {
+    return null;
+  }
+  const date = response.headers.get("date");
+  const serverTime = date ? Date.parse(date) : NaN;
+  if (Number.isNaN(serverTime)) {
+    return null;
+  }
+  return Math.round(serverTime + 500 - (requestStart + responseEnd) / 2);
+}
+
+export { measureClockOffset };
@@ -0,0 +1,651 @@
+/**
+ * Golden-vector conformance tests
+ *
+ * These tests run fully offline against the home page and ondemand.s
+ * fixtures in fixtures/ and assert the exact key material and transaction
+ * IDs produced for fixed timestamps and random bytes. The fixtures are
+ * synthetic, not recorded from x.com: fixtures/home.html is a trimmed page
+ * written in the structure of X's home page, and its animation frame paths
+ * were edited by hand to use the h and s path commands as well as C. The expected values
+ * were cross-checked with a Python transcription of the XClientTransaction
+ * port (float_to_hex, interpolate, the rotation matrix, animate and the
+ * transaction ID encoding) run on the same fixtures.
+ *
+ * Key material is extracted twice, from the HTML string with the built-in
+ * scanner and from a linkedom document, and both results must be identical,
+ * also for variants of the home page written in other valid HTML styles.
+ *
+ * Every discovery strategy for the ondemand chunk and the key byte indices
+ * has a vector: a variant of the fixtures that only that strategy reads,
+ * checked for the material it yields and the strategy it reports.
+ *
+ * The GraphQL registry is checked against fixtures/main.js, a trimmed main
+ * bundle holding a few operation literals in the shapes X ships.
+ *
+ * Every exported browser profile has a vector for its document, script and
+ * API header sets, so a new profile needs its expected headers added here.
+ *
+ * The HTTP sidecar is run against a local server standing in for x.com
+ * and abs.twimg.com, serving the same fixtures.
+ *
+ * When X changes its page layout, update the synthetic fixtures to the new
+ * structure and update the vectors below.
+ *
+ * Run with: pnpm test
+ */
+import { readFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { parseHTML } from "linkedom";
+import {
+  BROWSER_PROFILES,
+  createFromSources,
+  decodeTransactionId,
+  explainAnimationKey,
+  findOnDemandChunk,
+  generateTransactionId,
+  getGraphQLPath,
+  getMainBundleUrl,
+  getOnDemandFileUrl,
+  getProfileHeaders,
+  parseGraphQLOperations,
+  TransactionIdGenerator,
+} from "./index";
+import type { BrowserProfileName, RequestDestination } from "./index";
+import TransactionIdServer from "./server";
+import { interpolate } from "./interpolate";
+import { convertRotationToMatrix } from "./rotation";
+import { readHomePageDocument, readHomePageHtml } from "./homepage";
+import { getCurveRows, parsePathData } from "./svg";
+import { floatToHex } from "./utils";
+
+const FIXTURES_URL = new URL("../fixtures/", import.meta.url);
+
+const EXPECTED_KEY_MATERIAL = {
+  key: "Xr9wIdIbLgfy42X5Rr+mANlNRTCelkoZ4OlwYoAPRVXusaQbkg6to0W9UaU6CzGd",
+  animationKey: "04300ca3d70a3d70a409eb851eb851eb809eb851eb851eb80ca3d70a3d70a400",
+  rowIndex: 1,
+  keyByteIndices: [5, 9, 13],
+  onDemandHash: "e9d3b6c",
+};
+
+const EXPECTED_TRACE = {
+  frameIndex: 3,
+  rowIndexValue: 15,
+  frameTime: 500,
+  targetTime: 0.1220703125,
+  curves: [0.61, -0.9, 0.78, 0.11],
+};
+
+const EXPECTED_MAIN_BUNDLE_URL =
+  "https://abs.twimg.com/responsive-web/client-web/main.3f9a0c1ba.js";
+
+const GRAPHQL_PATH_VECTORS: [string, string | undefined, string][] = [
+  ["UserByScreenName", undefined, "/graphql/1VOOyvKkiI3FMmkeDNxM9A/UserByScreenName"],
+  ["HomeTimeline", "/i/api/graphql", "/i/api/graphql/E4wA5vo2sjVyvpliUffSCw/HomeTimeline"],
+  ["CreateTweet", "/i/api/graphql/", "/i/api/graphql/a1p9RWpkYKBjWv_I3WzS-A/CreateTweet"],
+  ["Viewer", undefined, "/graphql/Nf-BQ0nl0uIK7Cpb4rDEVg/Viewer"],
+];
+
+interface TransactionIdVector {
+  method: string;
+  path: string;
+  timeNow: number;
+  randomByte: number;
+  expected: string;
+}
+
+const TRANSACTION_ID_VECTORS: TransactionIdVector[] = [
+  {
+    method: "GET",
+    path: "/graphql/1VOOyvKkiI3FMmkeDNxM9A/UserByScreenName",
+    timeNow: 0,
+    randomByte: 0,
+    expected: "AF6/cCHSGy4H8uNl+Ua/pgDZTUUwnpZKGeDpcGKAD0VV7rGkG5IOraNFvVGlOgsxnQAAAABG6HQp1Wj/6q+vsTeVHm/NAw",
+  },
+  {
+    method: "GET",
+    path: "/graphql/1VOOyvKkiI3FMmkeDNxM9A/UserByScreenName",
+    timeNow: 100000000,
+    randomByte: 42,
+    expected: "KnSVWgv4MQQt2MlP02yVjCrzZ28atLxgM8rDWkiqJW9/xJuOMbgkh4lvl3uPECEbtyrL3y+upVQPknXc/9yCo9L8piUqKQ",
+  },
+  {
+    method: "POST",
+    path: "/1.1/guest/activate.json",
+    timeNow: 123456789,
+    randomByte: 255,
+    expected: "/6FAj94t5NH4DRyaBrlAWf8msrrPYWm15h8Wj51/8LqqEU5b5G3xUly6Qq5axfTOYuoypPj9S691FXnruz/HuYPzz+bN/A",
+  },
+  {
+    method: "GET",
+    path: "/i/api/graphql/abc/HomeTimeline",
+    timeNow: 65535,
+    randomByte: 1,
+    expected: "AV++cSDTGi8G8+Jk+Ee+pwHYTEQxn5dLGOHocWOBDkRU77ClGpMPrKJEvFCkOwownP7+AQHK7jZfiq06oDxzfLa2Jx2pAg",
+  },
+];
+
+const FLOAT_TO_HEX_VECTORS: [number, string][] = [
+  [0, ""],
+  [1, "1"],
+  [15, "F"],
+  [16, "10"],
+  [255, "FF"],
+  [0.5, ".8"],
+  [0.25, ".4"],
+  [0.71, ".B5C28F5C28F5C"],
+  [0.92, ".EB851EB851EB88"],
+  [12.75, "C.C"],
+];
+
+const INTERPOLATE_VECTORS: [number[], number[], number, number[]][] = [
+  [[0, 0, 0, 1], [255, 255, 255, 1], 0, [0, 0, 0, 1]],
+  [[0, 0, 0, 1], [255, 255, 255, 1], 1, [255, 255, 255, 1]],
+  [[0, 77, 8, 1], [81, 140, 89, 1], 0.5, [40.5, 108.5, 48.5, 1]],
+  [[10, 200], [20, 100], 0.25, [12.5, 175]],
+  [[0], [338], -0.16193444243588065, [-54.73384154332766]],
+];
+
+const ROTATION_VECTORS: [number, number[]][] = [
+  [0, [1, -0, 0, 1]],
+  [30, [0.8660254037844387, -0.49999999999999994, 0.49999999999999994, 0.8660254037844387]],
+  [45, [0.7071067811865476, -0.7071067811865475, 0.7071067811865475, 0.7071067811865476]],
+  [90, [6.123233995736766e-17, -1, 1, 6.123233995736766e-17]],
+  [180, [-1, -1.2246467991473532e-16, 1.2246467991473532e-16, -1]],
+  [270, [-1.8369701987210297e-16, 1, -1, -1.8369701987210297e-16]],
+];
+
+const PATH_ROW_VECTORS: [string, number[][]][] = [
+  ["M 10,30 C 1,2 3,4 5,6 h 7 s 8,9 10,11", [[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]]],
+  ["M0 0h24v24H0z", []],
+  ["M1,2C-1.5-2.5 .5.5 3e1,4 L5,6 c1 2 3 4 5 6", [[-1.5, -2.5, 0.5, 0.5, 30, 4, 5, 6], [1, 2, 3, 4, 5, 6]]],
+  ["m 0 0 l 1 1 C 1 2 3 4 5 6 7 8 9 10 11 12", [[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]]],
+];
+
+const PATH_ERROR_VECTORS: [string, string][] = [
+  ["M 10,30 C 1,2 3,4 5", "Command C at position 8 expects a multiple of 6 arguments, got 5"],
+  ["M 10,30 c 1,2 3,4 5,6 #", 'Unexpected "#" at position 22'],
+  ["M 0,0 A 1 1 0 0 1 2 2", 'Unsupported path command "A" at position 6'],
+  ["10,30 C 1,2 3,4 5,6", 'Path data must start with a command, found "10"'],
+  ["M 0,0 Z 1", "Command Z at position 6 takes no arguments"],
+];
+
+const KEY_META = '<meta name="twitter-site-verification" content="';
+
+const HOME_PAGE_VARIANTS: [string, (html: string) => string][] = [
+  ["fixture as written", (html) => html],
+  ["self-closing paths", (html) => html.replace(/><\/path>/g, " />")],
+  ["single-quoted attributes", (html) => html.replace(/ d="([^"]*)"/g, " d='$1'")],
+  ["upper case tags", (html) => html.replace(/<(\/?)(svg|g|meta)\b/g, (_, slash, name) => `<${slash}${name.toUpperCase()}`)],
+  ["character references", (html) => html.replace(`${KEY_META}Xr9`, `${KEY_META}&#x58;r9`).replace("Rr+m", "Rr&#43;m")],
+  [
+    "decoys in comments and scripts",
+    (html) =>
+      html.replace(
+        KEY_META,
+        '<!-- <meta name="twitter-site-verification" content="decoy"> -->' +
+          "<script>document.write('<svg id=\"loading-x-anim-9\"><path d=\"M 0,0 C 1,1 1,1 1,1\"></path></svg>')</script>" +
+          KEY_META
+      ),
+  ],
+];
+
+const ONDEMAND_CHUNK_URL = "https://abs.twimg.com/responsive-web/client-web/ondemand.s.";
+const WEBPACK_RUNTIME_REGEX = /<script nonce="fixture">!function\(\)\{"use strict";.*?<\/script>/;
+
+interface DiscoveryVector {
+  label: string;
+  homePage: (html: string) => string;
+  onDemand: (js: string) => string;
+  hash: string;
+  url: string;
+  strategies: { onDemand: string; indices: string; fallback: boolean };
+}
+
+const DISCOVERY_VECTORS: DiscoveryVector[] = [
+  {
+    label: "fixture as written",
+    homePage: (html) => html,
+    onDemand: (js) => js,
+    hash: "e9d3b6c",
+    url: `${ONDEMAND_CHUNK_URL}e9d3b6ca.js`,
+    strategies: { onDemand: "chunk-hash-literal", indices: "parseint-radix-16", fallback: false },
+  },
+  {
+    label: "chunk maps keyed by id",
+    homePage: (html) => html.replace(/\{"ondemand\.s":/g, "{8419:"),
+    onDemand: (js) => js,
+    hash: "e9d3b6c",
+    url: `${ONDEMAND_CHUNK_URL}e9d3b6ca.js`,
+    strategies: { onDemand: "webpack-chunk-maps", indices: "parseint-radix-16", fallback: true },
+  },
+  {
+    label: "chunk maps with another suffix",
+    homePage: (html) => html.replace(/\{"ondemand\.s":/g, "{8419:").replace('+"a.js"', '+"b.js"'),
+    onDemand: (js) => js,
+    hash: "e9d3b6c",
+    url: `${ONDEMAND_CHUNK_URL}e9d3b6cb.js`,
+    strategies: { onDemand: "webpack-chunk-maps", indices: "parseint-radix-16", fallback: true },
+  },
+  {
+    label: "preload link",
+    homePage: (html) =>
+      html.replace(WEBPACK_RUNTIME_REGEX, `<link rel="preload" as="script" href="${ONDEMAND_CHUNK_URL}e9d3b6ca.js">`),
+    onDemand: (js) => js,
+    hash: "e9d3b6c",
+    url: `${ONDEMAND_CHUNK_URL}e9d3b6ca.js`,
+    strategies: { onDemand: "chunk-url", indices: "parseint-radix-16", fallback: true },
+  },
+  {
+    label: "preload link without the a suffix",
+    homePage: (html) =>
+      html.replace(WEBPACK_RUNTIME_REGEX, `<link rel="preload" as="script" href="${ONDEMAND_CHUNK_URL}e9d3b6c1.js">`),
+    onDemand: (js) => js,
+    hash: "e9d3b6c1",
+    url: `${ONDEMAND_CHUNK_URL}e9d3b6c1.js`,
+    strategies: { onDemand: "chunk-url", indices: "parseint-radix-16", fallback: true },
+  },
+  {
+    label: "loose parseInt calls",
+    homePage: (html) => html,
+    onDemand: (js) => js.replace(/\(t\[(\d+)\], 16\)/g, "( $t[ $1 ] , 16 )"),
+    hash: "e9d3b6c",
+    url: `${ONDEMAND_CHUNK_URL}e9d3b6ca.js`,
+    strategies: { onDemand: "chunk-hash-literal", indices: "parseint-radix-16-loose", fallback: true },
+  },
+  {
+    label: "hexadecimal radix",
+    homePage: (html) => html,
+    onDemand: (js) => js.replace(/\(t\[(\d+)\], 16\)/g, "(t[$1],0x10)"),
+    hash: "e9d3b6c",
+    url: `${ONDEMAND_CHUNK_URL}e9d3b6ca.js`,
+    strategies: { onDemand: "chunk-hash-literal", indices: "parseint-radix-hex", fallback: true },
+  },
+];
+
+const CHROMIUM_HINTS = ["sec-ch-ua", "sec-ch-ua-mobile", "sec-ch-ua-platform"];
+const DOCUMENT_FETCH = ["sec-fetch-dest", "sec-fetch-mode", "sec-fetch-site", "sec-fetch-user", "upgrade-insecure-requests"];
+const CORS_FETCH = ["sec-fetch-dest", "sec-fetch-mode", "sec-fetch-site"];
+
+interface ProfileHeaderVector {
+  /** Header names in the order they are built */
+  names: Record<RequestDestination, string[]>;
+  /** Client hints, for Chromium-based profiles */
+  hints?: [secChUa: string, mobile: string, platform: string];
+}
+
+/**
+ * Names of the headers built for each destination, in order
+ * @param hints Whether the profile sends client hints
+ * @param priority Whether the profile sends a priority header on navigations
+ */
+function profileHeaderNames(hints: boolean, priority: boolean): Record<RequestDestination, string[]> {
+  const clientHints = hints ? CHROMIUM_HINTS : [];
+  return {
+    document: [
+      "accept", "accept-language", "cache-control", "pragma",
+      ...(priority ? ["priority"] : []),
+      ...clientHints, ...DOCUMENT_FETCH, "user-agent",
+    ],
+    script: ["accept", "accept-language", "origin", "referer", ...clientHints, ...CORS_FETCH, "user-agent"],
+    api: [
+      "accept", "accept-language", "origin", "referer", ...clientHints, ...CORS_FETCH,
+      "x-twitter-active-user", "x-twitter-client-language", "user-agent",
+    ],
+  };
+}
+
+const CHROME_SEC_CH_UA = '"Google Chrome";v="135", "Not-A.Brand";v="8", "Chromium";v="135"';
+
+/**
+ * Header sets of every exported profile, keyed by profile name
+ */
+const PROFILE_HEADER_VECTORS: Record<BrowserProfileName, ProfileHeaderVector> = {
+  chrome: { names: profileHeaderNames(true, true), hints: [CHROME_SEC_CH_UA, "?0", '"Windows"'] },
+  "chrome-android": { names: profileHeaderNames(true, true), hints: [CHROME_SEC_CH_UA, "?1", '"Android"'] },
+  edge: {
+    names: profileHeaderNames(true, true),
+    hints: ['"Microsoft Edge";v="135", "Not-A.Brand";v="8", "Chromium";v="135"', "?0", '"Windows"'],
+  },
+  firefox: { names: profileHeaderNames(false, true) },
+  "firefox-android": { names: profileHeaderNames(false, true) },
+  safari: { names: profileHeaderNames(false, false) },
+  "safari-ios": { names: profileHeaderNames(false, false) },
+};
+
+const SEC_FETCH_VECTORS: Record<RequestDestination, [dest: string, mode: string, site: string]> = {
+  document: ["document", "navigate", "none"],
+  script: ["script", "cors", "cross-site"],
+  api: ["empty", "cors", "same-site"],
+};
+
+/**
+ * Simple assertion function replacing an external assertion library
+ */
+function assertEquals(actual: any, expected: any, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(message || `Assertion failed: expected ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Asserts that two number arrays are exactly equal
+ */
+function assertArrayEquals(actual: number[], expected: number[], message: string): void {
+  assertEquals(
+    actual.length === expected.length && actual.every((value, i) => value === expected[i]),
+    true,
+    `${message}: expected [${expected}], got [${actual}]`
+  );
+}
+
+/**
+ * Reads a fixture file
+ */
+function readFixture(name: string): Promise<string> {
+  return readFile(new URL(name, FIXTURES_URL), "utf8");
+}
+
+async function testKeyMaterial(homePage: string, onDemandJs: string) {
+  const material = createFromSources(homePage, onDemandJs);
+  assertEquals(material.key, EXPECTED_KEY_MATERIAL.key, "key");
+  assertEquals(material.animationKey, EXPECTED_KEY_MATERIAL.animationKey, "animation key");
+  assertEquals(material.rowIndex, EXPECTED_KEY_MATERIAL.rowIndex, "row index");
+  assertArrayEquals(material.keyByteIndices, EXPECTED_KEY_MATERIAL.keyByteIndices, "key byte indices");
+  assertEquals(material.onDemandHash, EXPECTED_KEY_MATERIAL.onDemandHash, "ondemand.s hash");
+
+  const trace = explainAnimationKey(homePage, material.rowIndex, material.keyByteIndices);
+  assertEquals(trace.frameIndex, EXPECTED_TRACE.frameIndex, "frame index");
+  assertEquals(trace.rowIndexValue, EXPECTED_TRACE.rowIndexValue, "frame row index");
+  assertEquals(trace.frameTime, EXPECTED_TRACE.frameTime, "frame time");
+  assertEquals(trace.targetTime, EXPECTED_TRACE.targetTime, "target time");
+  assertArrayEquals(trace.curves, EXPECTED_TRACE.curves, "curves");
+  console.log("Key material matches the golden values");
+}
+
+async function testTransactionIds() {
+  const { key, animationKey } = EXPECTED_KEY_MATERIAL;
+  const generator = new TransactionIdGenerator(key, animationKey);
+
+  for (const { method, path, timeNow, randomByte, expected } of TRANSACTION_ID_VECTORS) {
+    const label = `${method} ${path} at ${timeNow} with random byte ${randomByte}`;
+    const transactionId = await generateTransactionId(method, path, key, animationKey, {
+      timeNow,
+      randomByte,
+    });
+    assertEquals(transactionId, expected, `${label}: expected ${expected}, got ${transactionId}`);
+    assertEquals(generator.generate(method, path, { timeNow, randomByte }), expected, `${label} (generator)`);
+
+    const decoded = decodeTransactionId(transactionId);
+    assertEquals(decoded.timeNow, timeNow, `${label}: decoded timestamp`);
+    assertEquals(decoded.randomByte, randomByte, `${label}: decoded random byte`);
+  }
+  console.log(`${TRANSACTION_ID_VECTORS.length} transaction ID vectors passed`);
+}
+
+function testExtractionPaths(homePage: string, onDemandJs: string) {
+  for (const [label, transform] of HOME_PAGE_VARIANTS) {
+    const html = transform(homePage);
+    const document = parseHTML(html).window.document;
+
+    const fromHtml = readHomePageHtml(html);
+    const fromDocument = readHomePageDocument(document);
+    assertEquals(fromHtml.key, fromDocument.key, `${label}: key`);
+    assertEquals(JSON.stringify(fromHtml.frames), JSON.stringify(fromDocument.frames), `${label}: frames`);
+    assertEquals(getOnDemandFileUrl(html), getOnDemandFileUrl(document), `${label}: ondemand file URL`);
+    assertEquals(getMainBundleUrl(html), getMainBundleUrl(document), `${label}: main bundle URL`);
+
+    const material = createFromSources(html, onDemandJs);
+    assertEquals(JSON.stringify(material), JSON.stringify(createFromSources(document, onDemandJs)), `${label}: key material`);
+    assertEquals(material.animationKey, EXPECTED_KEY_MATERIAL.animationKey, `${label}: animation key`);
+    assertEquals(
+      JSON.stringify(explainAnimationKey(html, material.rowIndex, material.keyByteIndices)),
+      JSON.stringify(explainAnimationKey(document, material.rowIndex, material.keyByteIndices)),
+      `${label}: animation key trace`
+    );
+  }
+  console.log(`${HOME_PAGE_VARIANTS.length} home page variants extract identically from HTML and documents`);
+}
+
+function testDiscovery(homePage: string, onDemandJs: string) {
+  for (const { label, homePage: transformHome, onDemand, hash, url, strategies } of DISCOVERY_VECTORS) {
+    const html = transformHome(homePage);
+    const js = onDemand(onDemandJs);
+
+    const chunk = findOnDemandChunk(html);
+    assertEquals(chunk?.hash, hash, `${label}: chunk hash`);
+    assertEquals(chunk?.url, url, `${label}: chunk URL`);
+    assertEquals(chunk?.strategy, strategies.onDemand, `${label}: chunk strategy`);
+    assertEquals(getOnDemandFileUrl(html), url, `${label}: ondemand file URL`);
+
+    const material = createFromSources(html, js);
+    assertEquals(material.onDemandHash, hash, `${label}: ondemand.s hash`);
+    assertEquals(material.rowIndex, EXPECTED_KEY_MATERIAL.rowIndex, `${label}: row index`);
+    assertArrayEquals(material.keyByteIndices, EXPECTED_KEY_MATERIAL.keyByteIndices, `${label}: key byte indices`);
+    assertEquals(material.animationKey, EXPECTED_KEY_MATERIAL.animationKey, `${label}: animation key`);
+    assertEquals(JSON.stringify(material.strategies), JSON.stringify(strategies), `${label}: strategies`);
+  }
+  console.log(`${DISCOVERY_VECTORS.length} discovery vectors passed`);
+}
+
+function testGraphQLRegistry(homePage: string, mainJs: string) {
+  assertEquals(getMainBundleUrl(homePage), EXPECTED_MAIN_BUNDLE_URL, "main bundle URL");
+
+  const operations = parseGraphQLOperations(mainJs);
+  assertEquals(Object.keys(operations).length, GRAPHQL_PATH_VECTORS.length, "operation count");
+  for (const [operationName, prefix, expected] of GRAPHQL_PATH_VECTORS) {
+    const path = getGraphQLPath(operations, operationName, prefix);
+    assertEquals(path, expected, `${operationName}: expected ${expected}, got ${path}`);
+  }
+
+  const { operationType, featureSwitches, fieldToggles } = operations.UserByScreenName;
+  assertEquals(operationType, "query", "UserByScreenName operation type");
+  assertEquals(featureSwitches.length, 4, "UserByScreenName feature switches");
+  assertEquals(featureSwitches[0], "hidden_profile_subscriptions_enabled", "first feature switch");
+  assertEquals(fieldToggles.join(","), "withAuxiliaryUserLabels", "UserByScreenName field toggles");
+  assertEquals(operations.CreateTweet.operationType, "mutation", "CreateTweet operation type");
+  assertEquals(operations.HomeTimeline.fieldToggles.length, 0, "HomeTimeline field toggles");
+  console.log(`${GRAPHQL_PATH_VECTORS.length} GraphQL operations parsed`);
+}
+
+function testPathData() {
+  for (const [pathData, expected] of PATH_ROW_VECTORS) {
+    const rows = getCurveRows(parsePathData(pathData));
+    assertEquals(JSON.stringify(rows), JSON.stringify(expected), `rows of "${pathData}": got ${JSON.stringify(rows)}`);
+  }
+  const [moveTo, curve] = parsePathData("m 1,2 C 1,2 3,4 5,6");
+  assertEquals(moveTo.relative, true, "relative moveto");
+  assertEquals(curve.relative, false, "absolute curve");
+  assertEquals(curve.offset, 6, "curve offset");
+
+  for (const [pathData, expected] of PATH_ERROR_VECTORS) {
+    let message = "";
+    try {
+      parsePathData(pathData);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    assertEquals(message, expected, `error of "${pathData}": expected "${expected}", got "${message}"`);
+  }
+  console.log(`${PATH_ROW_VECTORS.length + PATH_ERROR_VECTORS.length} path data vectors passed`);
+}
+
+/**
+ * Serves the fixtures at the paths X serves them from
+ *
+ * Every path answers with failStatus instead while it is set.
+ */
+async function startFixtureServer(homePage: string, onDemandJs: string) {
+  const routes: Record<string, string> = {
+    "/": homePage,
+    "/responsive-web/client-web/ondemand.s.e9d3b6ca.js": onDemandJs,
+  };
+  const state = { failStatus: 0, homePageHits: 0 };
+  const server = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname === "/") {
+      state.homePageHits++;
+    }
+    const body = routes[pathname];
+    const status = state.failStatus || (body === undefined ? 404 : 200);
+    res.writeHead(status, { "content-type": "text/html" });
+    res.end(status === 200 ? body : "");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    state,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+async function testServer(homePage: string, onDemandJs: string) {
+  const fixtures = await startFixtureServer(homePage, onDemandJs);
+  const request = { baseUrl: fixtures.url, assetsBaseUrl: fixtures.url };
+  const path = TRANSACTION_ID_VECTORS[0].path;
+  const servers: TransactionIdServer[] = [];
+
+  /**
+   * Starts a sidecar on a free port and returns a function fetching its JSON
+   */
+  async function startSidecar(retryDelay?: number) {
+    const server = new TransactionIdServer({ port: 0, request, retryDelay });
+    servers.push(server);
+    const { port } = await server.listen();
+    return async (route: string) => {
+      const response = await fetch(`http://127.0.0.1:${port}${route}`);
+      return { status: response.status, body: await response.json() };
+    };
+  }
+
+  try {
+    const get = await startSidecar();
+    const generated = await get(`/transaction-id?method=get&path=${encodeURIComponent(path)}`);
+    assertEquals(generated.status, 200, "transaction ID status");
+    assertEquals(generated.body.method, "GET", "transaction ID method");
+    assertEquals(generated.body.path, path, "transaction ID path");
+    const decoded = decodeTransactionId(generated.body.transactionId);
+    assertEquals(Buffer.from(decoded.keyBytes).toString("base64"), EXPECTED_KEY_MATERIAL.key, "transaction ID key");
+
+    const keys = await get("/keys");
+    assertEquals(keys.status, 200, "keys status");
+    assertEquals(keys.body.animationKey, EXPECTED_KEY_MATERIAL.animationKey, "served animation key");
+    assertEquals(keys.body.onDemandHash, EXPECTED_KEY_MATERIAL.onDemandHash, "served ondemand.s hash");
+    assertEquals((await get("/transaction-id")).status, 400, "missing path status");
+    assertEquals((await get("/health")).status, 200, "health status when warm");
+
+    // A sidecar that cannot load key material reports why, sharing one failed load
+    fixtures.state.failStatus = 500;
+    fixtures.state.homePageHits = 0;
+    const failing = await startSidecar();
+    for (let i = 0; i < 3; i++) {
+      const failed = await failing(`/transaction-id?path=${encodeURIComponent(path)}`);
+      assertEquals(failed.status, 503, "transaction ID status while failing");
+      assertEquals(failed.body.stage, "migration", "failed stage");
+      assertEquals(failed.body.status, 500, "failed upstream status");
+    }
+    assertEquals((await failing("/keys")).status, 503, "keys status while failing");
+    assertEquals(fixtures.state.homePageHits, 1, "one homepage fetch within the retry delay");
+    assertEquals((await failing("/health")).status, 503, "health status while failing");
+    assertEquals((await failing("/health")).body.status, "error", "health state while failing");
+
+    // Once the retry delay has passed, the next request loads again
+    fixtures.state.homePageHits = 0;
+    const retrying = await startSidecar(100);
+    assertEquals((await retrying(`/transaction-id?path=${encodeURIComponent(path)}`)).status, 503, "status before the retry");
+    fixtures.state.failStatus = 0;
+    assertEquals((await retrying(`/transaction-id?path=${encodeURIComponent(path)}`)).status, 503, "status within the retry delay");
+    assertEquals(fixtures.state.homePageHits, 1, "no homepage fetch within the retry delay");
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    assertEquals((await retrying(`/transaction-id?path=${encodeURIComponent(path)}`)).status, 200, "status after the retry");
+    assertEquals(fixtures.state.homePageHits, 2, "homepage fetched again after the retry delay");
+    assertEquals((await retrying("/health")).body.status, "ok", "health state after the retry");
+  } finally {
+    await Promise.all(servers.map((server) => server.close()));
+    await fixtures.close();
+  }
+  console.log("Server generates transaction IDs from the fixtures, reports failures and retries after a delay");
+}
+
+function testHelpers() {
+  for (const [input, expected] of FLOAT_TO_HEX_VECTORS) {
+    assertEquals(floatToHex(input), expected, `floatToHex(${input}): expected "${expected}", got "${floatToHex(input)}"`);
+  }
+  for (const [from, to, f, expected] of INTERPOLATE_VECTORS) {
+    assertArrayEquals(interpolate(from, to, f), expected, `interpolate([${from}], [${to}], ${f})`);
+  }
+  for (const [rotation, expected] of ROTATION_VECTORS) {
+    assertArrayEquals(convertRotationToMatrix(rotation), expected, `convertRotationToMatrix(${rotation})`);
+  }
+  console.log(
+    `${FLOAT_TO_HEX_VECTORS.length + INTERPOLATE_VECTORS.length + ROTATION_VECTORS.length} helper vectors passed`
+  );
+}
+
+function testProfileHeaders() {
+  assertEquals(
+    Object.keys(BROWSER_PROFILES).join(),
+    Object.keys(PROFILE_HEADER_VECTORS).join(),
+    "every exported profile has a header vector"
+  );
+  let checked = 0;
+  for (const [name, { names, hints }] of Object.entries(PROFILE_HEADER_VECTORS)) {
+    const profile = BROWSER_PROFILES[name as BrowserProfileName];
+    for (const destination of ["document", "script", "api"] as const) {
+      const label = `${name} ${destination}`;
+      const headers = getProfileHeaders(name as BrowserProfileName, destination);
+      assertEquals(Object.keys(headers).join(), names[destination].join(), `${label}: header names`);
+      assertEquals(headers["user-agent"], profile.userAgent, `${label}: user-agent`);
+      assertEquals(headers["accept-language"], profile.acceptLanguage, `${label}: accept-language`);
+      assertEquals(headers.accept, destination === "document" ? profile.accept : "*/*", `${label}: accept`);
+      const [dest, mode, site] = SEC_FETCH_VECTORS[destination];
+      assertEquals(
+        [headers["sec-fetch-dest"], headers["sec-fetch-mode"], headers["sec-fetch-site"]].join(),
+        [dest, mode, site].join(),
+        `${label}: sec-fetch headers`
+      );
+      if (hints) {
+        assertEquals(
+          [headers["sec-ch-ua"], headers["sec-ch-ua-mobile"], headers["sec-ch-ua-platform"]].join("|"),
+          hints.join("|"),
+          `${label}: client hints`
+        );
+      }
+      if (destination === "document") {
+        assertEquals(headers["sec-fetch-user"], "?1", `${label}: sec-fetch-user`);
+        assertEquals(headers.priority, profile.priority, `${label}: priority`);
+      } else {
+        assertEquals(headers.origin, "https://x.com", `${label}: origin`);
+        assertEquals(headers.referer, "https://x.com/", `${label}: referer`);
+      }
+      if (destination === "api") {
+        assertEquals(headers["x-twitter-client-language"], "en", `${label}: client language`);
+      }
+      checked++;
+    }
+  }
+  console.log(`${checked} browser profile header sets passed`);
+}
+
+try {
+  const [homePage, onDemandJs, mainJs] = await Promise.all([
+    readFixture("home.html"),
+    readFixture("ondemand.js"),
+    readFixture("main.js"),
+  ]);
+  await testKeyMaterial(homePage, onDemandJs);
+  await testTransactionIds();
+  testExtractionPaths(homePage, onDemandJs);
+  testDiscovery(homePage, onDemandJs);
+  testGraphQLRegistry(homePage, mainJs);
+  testPathData();
+  testHelpers();
+  testProfileHeaders();
+  await testServer(homePage, onDemandJs);
+  console.log("✅ Test passed!");
+} catch (error) {
+  console.error("❌ Test failed:", error);
+  process.exit(1);
+}
@@ -0,0 +1,250 @@
+/**
+ * Cookie jar for X sessions
+ *
+ * This module provides a minimal cookie jar that stores Set-Cookie headers
+ * and document.cookie assignments and returns the Cookie header for a URL,
+ * so a session started during the migration can be reused for API calls.
+ */
+
+/**
+ * A cookie stored in the jar
+ */
+export interface Cookie {
+  name: string;
+  value: string;
+  /** Domain without a leading dot */
+  domain: string;
+  path: string;
+  /** Only sent to the exact domain that set it */
+  hostOnly: boolean;
+  /** Expiry in milliseconds since the epoch, or null for a session cookie */
+  expires: number | null;
+  secure: boolean;
+  httpOnly: boolean;
+}
+
+/**
+ * Stores cookies and returns the ones matching a URL
+ */
+class CookieJar {
+  private store = new Map<string, Cookie>();
+
+  /**
+   * Creates a new CookieJar instance
+   * @param cookies Optional cookies to start with, such as the output of toJSON
+   */
+  constructor(cookies: Cookie[] = []) {
+    for (const cookie of cookies) {
+      this.store.set(this.keyOf(cookie), { ...cookie });
+    }
+  }
+
+  /**
+   * Stores a cookie from a Set-Cookie header value or document.cookie string
+   * @param setCookie Set-Cookie header value
+   * @param url URL of the response that set the cookie
+   * @param now Current time in milliseconds
+   */
+  setCookie(setCookie: string, url: string, now: number = Date.now()): void {
+    const [pair, ...attributes] = setCookie.split(";");
+    const separator = pair.indexOf("=");
+    if (separator < 1) {
+      return;
+    }
+
+    const { hostname, pathname } = new URL(url);
+    const cookie: Cookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: hostname.toLowerCase(),
+      path: defaultPath(pathname),
+      hostOnly: true,
+      expires: null,
+      secure: false,
+      httpOnly: false,
+    };
+
+    let maxAge: number | null = null;
+    for (const attribute of attributes) {
+      const [rawName, ...rest] = attribute.split("=");
+      const name = rawName.trim().toLowerCase();
+      const value = rest.join("=").trim();
+      if (name === "domain" && value) {
+        const domain = value.replace(/^\./, "").toLowerCase();
+        // Ignore cookies for domains the response cannot set
+        if (!domainMatches(cookie.domain, domain)) {
+          return;
+        }
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+      } else if (name === "path" && value.startsWith("/")) {
+        cookie.path = value;
+      } else if (name === "max-age" && /^-?\d+$/.test(value)) {
+        maxAge = parseInt(value, 10);
+      } else if (name === "expires") {
+        const expires = Date.parse(value);
+        if (!Number.isNaN(expires)) {
+          cookie.expires = expires;
+        }
+      } else if (name === "secure") {
+        cookie.secure = true;
+      } else if (name === "httponly") {
+        cookie.httpOnly = true;
+      }
+    }
+    // Max-Age takes precedence over Expires
+    if (maxAge !== null) {
+      cookie.expires = now + maxAge * 1000;
+    }
+
+    const key = this.keyOf(cookie);
+    if (cookie.expires !== null && cookie.expires <= now) {
+      this.store.delete(key);
+    } else {
+      this.store.set(key, cookie);
+    }
+  }
+
+  /**
+   * Stores every cookie set by a response
+   * @param response Response whose Set-Cookie headers are stored
+   * @param url URL the response was requested from
+   */
+  storeResponse(response: Response, url: string): void {
+    for (const setCookie of getSetCookies(response.headers)) {
+      this.setCookie(setCookie, url);
+    }
+  }
+
+  /**
+   * Returns the cookies that would be sent to a URL
+   * @param url Request URL
+   * @param now Current time in milliseconds
+   * @returns Matching cookies, longest path first
+   */
+  getCookies(url: string, now: number = Date.now()): Cookie[] {
+    const { protocol, hostname, pathname } = new URL(url);
+    const host = hostname.toLowerCase();
+    const matches: Cookie[] = [];
+    for (const [key, cookie] of this.store) {
+      if (cookie.expires !== null && cookie.expires <= now) {
+        this.store.delete(key);
+        continue;
+      }
+      const hostMatches = cookie.hostOnly
+        ? host === cookie.domain
+        : domainMatches(host, cookie.domain);
+      if (
+        hostMatches &&
+        pathMatches(pathname, cookie.path) &&
+        (!cookie.secure || protocol === "https:")
+      ) {
+        matches.push(cookie);
+      }
+    }
+    return matches.sort((a, b) => b.path.length - a.path.length);
+  }
+
+  /**
+   * Returns the value of a cookie sent to a URL
+   * @param name Cookie name
+   * @param url Request URL
+   * @returns Cookie value, or null if no matching cookie is stored
+   */
+  get(name: string, url: string): string | null {
+    return this.getCookies(url).find((cookie) => cookie.name === name)?.value ?? null;
+  }
+
+  /**
+   * Builds the Cookie header for a URL
+   * @param url Request URL
+   * @returns Cookie header value, or an empty string if no cookie matches
+   */
+  getCookieHeader(url: string): string {
+    return this.getCookies(url)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join("; ");
+  }
+
+  /**
+   * Removes every cookie from the jar
+   */
+  clear(): void {
+    this.store.clear();
+  }
+
+  /**
+   * Returns the stored cookies
+   * @returns Copies of the stored cookies
+   */
+  toJSON(): Cookie[] {
+    return Array.from(this.store.values(), (cookie) => ({ ...cookie }));
+  }
+
+  /**
+   * Builds the key identifying a cookie in the store
+   * @param cookie Cookie
+   * @returns Store key
+   * @private
+   */
+  private keyOf(cookie: Cookie): string {
+    return `${cookie.domain};${cookie.path};${cookie.name}`;
+  }
+}
+
+/**
+ * Reads every Set-Cookie header from a response
+ *
+ * Falls back to splitting the combined header on runtimes without
+ * Headers.getSetCookie.
+ *
+ * @param headers Response headers
+ * @returns Set-Cookie header values
+ */
+function getSetCookies(headers: Headers): string[] {
+  const { getSetCookie } = headers as { getSetCookie?: () => string[] };
+  if (typeof getSetCookie === "function") {
+    return getSetCookie.call(headers);
+  }
+  const combined = headers.get("set-cookie");
+  // Split on commas that start a new name=value pair, not those in Expires
+  return combined ? combined.split(/,(?=\s*[^;=\s,]+=)/).map((value) => value.trim()) : [];
+}
+
+/**
+ * Checks whether a host is the cookie domain or one of its subdomains
+ * @param host Request host
+ * @param domain Cookie domain
+ * @returns True if the cookie applies to the host
+ */
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Checks whether a request path is within the cookie path
+ * @param pathname Request path
+ * @param cookiePath Cookie path
+ * @returns True if the cookie applies to the path
+ */
+function pathMatches(pathname: string, cookiePath: string): boolean {
+  if (pathname === cookiePath || cookiePath === "/") {
+    return true;
+  }
+  return (
+    pathname.startsWith(cookiePath) &&
+    (cookiePath.endsWith("/") || pathname[cookiePath.length] === "/")
+  );
+}
+
+/**
+ * Returns the default cookie path for a request path
+ * @param pathname Request path
+ * @returns Directory of the request path
+ */
+function defaultPath(pathname: string): string {
+  const lastSlash = pathname.lastIndexOf("/");
+  return lastSlash > 0 ? pathname.slice(0, lastSlash) : "/";
+}
+
+export default CookieJar;
@@ -0,0 +1,103 @@
+/**
+ * Tests for the cubic bezier solver
+ *
+ * The expected values follow the algorithm of Chromium's gfx::CubicBezier
+ * (ui/gfx/geometry/cubic_bezier.cc), which backs the cubic-bezier() timing
+ * function: a spline-sampled initial guess, Newton-Raphson with a 1e-7
+ * epsilon and a bisection fallback. The first vectors are cases where a
+ * plain bisection with a 0.00001 tolerance returns a different value.
+ *
+ * Run with: pnpm test:cubic
+ */
+import Cubic from "./cubic";
+
+interface CubicVector {
+  curves: number[];
+  time: number;
+  expected: number;
+  note: string;
+}
+
+const VECTORS: CubicVector[] = [
+  { curves: [0.81, 0.85, 0.52, -0.22], time: 0.3955078125, expected: 0.32740268736871897, note: "diverges from a 0.00001 bisection" },
+  { curves: [0.16, -0.36, 0.92, -0.98], time: 0.66650390625, expected: -0.3049330713712264, note: "diverges from a 0.00001 bisection" },
+  { curves: [0.03, 0.63, 0.74, 0.03], time: 0.5615234375, expected: 0.4169824972449438, note: "diverges from a 0.00001 bisection" },
+  { curves: [0.9, 0.06, 0.64, -0.28], time: 0.80078125, expected: 0.24915933892086736, note: "diverges from a 0.00001 bisection" },
+  { curves: [0.38, 0.68, 0.81, 0.02], time: 0.12939453125, expected: 0.1824984284565205, note: "diverges from a 0.00001 bisection" },
+  { curves: [0.48, 1, 0.28, 0.68], time: 0.05859375, expected: 0.12250167264885516, note: "diverges from a 0.00001 bisection" },
+  { curves: [0.2, -0.07, 0.6, -0.62], time: 0.94970703125, expected: 0.8075001578204181, note: "diverges from a 0.00001 bisection" },
+  { curves: [0.5, -0.79, 0.8, 0.98], time: 0.48583984375, expected: -0.032504198651139356, note: "diverges from a 0.00001 bisection" },
+  { curves: [0, 0, 1, 1], time: 0.3, expected: 0.3000000000014499, note: "linear curve" },
+  { curves: [0.42, 0, 0.58, 1], time: 0.5, expected: 0.5, note: "ease-in-out midpoint" },
+  { curves: [0.25, 0.1, 0.25, 1], time: 0.25, expected: 0.4085105913555371, note: "ease" },
+  { curves: [0, 0.5, 1, 0.5], time: 0.5, expected: 0.5, note: "flat x curve at both ends" },
+  { curves: [0.99, 0, 0.01, 1], time: 0.5, expected: 0.5000000000000031, note: "steep middle section" },
+  { curves: [0, 0, 0, 0], time: 0, expected: 0, note: "start of curve" },
+  { curves: [0.3, -0.5, 0.7, 1.5], time: 1, expected: 1, note: "end of curve" },
+  { curves: [0.4, 0.8, 0.6, 0.2], time: -0.25, expected: -0.5, note: "extrapolation before start, p1x > 0" },
+  { curves: [0, 0, 0.5, 0.75], time: -0.5, expected: -0.75, note: "extrapolation before start, p1 at origin" },
+  { curves: [0, 0, 0, 0], time: -1, expected: -1, note: "extrapolation before start, both control points at origin" },
+  { curves: [0, 0.5, 0.5, 0.5], time: -1, expected: 0, note: "extrapolation before start, vertical start tangent" },
+  { curves: [0.4, 0.8, 0.6, 0.2], time: 1.25, expected: 1.5, note: "extrapolation after end, p2x < 1" },
+  { curves: [0.5, 0.25, 1, 1], time: 1.5, expected: 1.75, note: "extrapolation after end, p2 at end point" },
+  { curves: [1, 1, 1, 1], time: 2, expected: 2, note: "extrapolation after end, both control points at end point" },
+  { curves: [0.5, 0.5, 1, 0.5], time: 2, expected: 1, note: "extrapolation after end, vertical end tangent" },
+];
+
+/**
+ * Simple assertion function replacing an external assertion library
+ */
+function assertEquals(actual: any, expected: any, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(message || `Assertion failed: expected ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Solves the curve by high-precision bisection as an independent reference
+ */
+function referenceValue(curves: number[], time: number): number {
+  const [p1x, p1y, p2x, p2y] = curves;
+  const bezier = (a: number, b: number, t: number) =>
+    3 * a * (1 - t) * (1 - t) * t + 3 * b * (1 - t) * t * t + t * t * t;
+  let start = 0;
+  let end = 1;
+  for (let i = 0; i < 200; i++) {
+    const mid = (start + end) / 2;
+    if (bezier(p1x, p2x, mid) < time) {
+      start = mid;
+    } else {
+      end = mid;
+    }
+  }
+  return bezier(p1y, p2y, (start + end) / 2);
+}
+
+function testCubicVectors() {
+  for (const { curves, time, expected, note } of VECTORS) {
+    const actual = new Cubic(curves).getValue(time);
+    assertEquals(
+      actual,
+      expected,
+      `cubic-bezier(${curves.join(", ")}) at ${time} (${note}): expected ${expected}, got ${actual}`
+    );
+
+    if (time >= 0 && time <= 1) {
+      const reference = referenceValue(curves, time);
+      if (Math.abs(actual - reference) > 1e-6) {
+        throw new Error(
+          `cubic-bezier(${curves.join(", ")}) at ${time} is ${actual}, reference is ${reference}`
+        );
+      }
+    }
+  }
+  console.log(`${VECTORS.length} cubic bezier vectors passed`);
+}
+
+try {
+  testCubicVectors();
+  console.log("✅ Test passed!");
+} catch (error) {
+  console.error("❌ Test failed:", error);
+  process.exit(1);
+}
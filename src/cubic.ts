@@ -2,17 +2,68 @@
  * Cubic Bezier interpolation implementation
  *
  * This class implements cubic bezier curve interpolation
- * used for animation key generation.
+ * used for animation key generation. It mirrors the solver behind the
+ * browser's cubic-bezier() timing function (Chromium's gfx::CubicBezier),
+ * so the interpolated values match the web client exactly.
  */
+
+const BEZIER_EPSILON = 1e-7;
+const MAX_NEWTON_ITERATIONS = 4;
+const SPLINE_SAMPLES = 11;
+
 class Cubic {
-  private curves: number[];
+  private ax: number;
+  private bx: number;
+  private cx: number;
+  private ay: number;
+  private by: number;
+  private cy: number;
+  private startGradient: number;
+  private endGradient: number;
+  private splineSamples: number[];
 
   /**
    * Creates a new Cubic instance
-   * @param curves Array of curve control points
+   * @param curves Array of curve control points [x1, y1, x2, y2]
    */
   constructor(curves: number[]) {
-    this.curves = curves;
+    const [p1x, p1y, p2x, p2y] = curves;
+
+    // Polynomial coefficients, with implicit end points (0, 0) and (1, 1)
+    this.cx = 3.0 * p1x;
+    this.bx = 3.0 * (p2x - p1x) - this.cx;
+    this.ax = 1.0 - this.cx - this.bx;
+    this.cy = 3.0 * p1y;
+    this.by = 3.0 * (p2y - p1y) - this.cy;
+    this.ay = 1.0 - this.cy - this.by;
+
+    // End point gradients, used for times outside the 0-1 range
+    if (p1x > 0) {
+      this.startGradient = p1y / p1x;
+    } else if (!p1y && p2x > 0) {
+      this.startGradient = p2y / p2x;
+    } else if (!p1y && !p2y) {
+      this.startGradient = 1;
+    } else {
+      this.startGradient = 0;
+    }
+
+    if (p2x < 1) {
+      this.endGradient = (p2y - 1) / (p2x - 1);
+    } else if (p2y === 1 && p1x < 1) {
+      this.endGradient = (p1y - 1) / (p1x - 1);
+    } else if (p2y === 1 && p1y === 1) {
+      this.endGradient = 1;
+    } else {
+      this.endGradient = 0;
+    }
+
+    // Samples used to find an initial guess for the solver
+    const deltaT = 1.0 / (SPLINE_SAMPLES - 1);
+    this.splineSamples = [];
+    for (let i = 0; i < SPLINE_SAMPLES; i++) {
+      this.splineSamples.push(this.sampleCurveX(i * deltaT));
+    }
   }
 
   /**
@@ -21,59 +72,108 @@ class Cubic {
    * @returns Interpolated value
    */
   getValue(time: number): number {
-    let startGradient = 0;
-    let endGradient = 0;
-    let start = 0.0;
-    let mid = 0.0;
-    let end = 1.0;
-
-    // Handle values outside the 0-1 range
-    if (time <= 0.0) {
-      if (this.curves[0] > 0.0) {
-        startGradient = this.curves[1] / this.curves[0];
-      } else if (this.curves[1] === 0.0 && this.curves[2] > 0.0) {
-        startGradient = this.curves[3] / this.curves[2];
+    // Extrapolate linearly outside the 0-1 range
+    if (time < 0.0) {
+      return 0.0 + this.startGradient * time;
+    }
+    if (time > 1.0) {
+      return 1.0 + this.endGradient * (time - 1.0);
+    }
+    return this.sampleCurveY(this.solveCurveX(time));
+  }
+
+  /**
+   * Finds the parametric value whose x coordinate equals the given time
+   *
+   * Uses Newton-Raphson from a spline-interpolated initial guess and falls
+   * back to bisection when it does not converge.
+   *
+   * @param x Normalized time value (0.0 to 1.0)
+   * @returns Parametric value (0.0 to 1.0)
+   * @private
+   */
+  private solveCurveX(x: number): number {
+    let t0 = 0.0;
+    let t1 = 0.0;
+    let t2 = x;
+    let x2 = 0.0;
+
+    // Linear interpolation of spline curve for initial guess
+    const deltaT = 1.0 / (SPLINE_SAMPLES - 1);
+    for (let i = 1; i < SPLINE_SAMPLES; i++) {
+      if (x <= this.splineSamples[i]) {
+        t1 = deltaT * i;
+        t0 = t1 - deltaT;
+        t2 =
+          t0 +
+          ((t1 - t0) * (x - this.splineSamples[i - 1])) /
+            (this.splineSamples[i] - this.splineSamples[i - 1]);
+        break;
       }
-      return startGradient * time;
     }
 
-    if (time >= 1.0) {
-      if (this.curves[2] < 1.0) {
-        endGradient = (this.curves[3] - 1.0) / (this.curves[2] - 1.0);
-      } else if (this.curves[2] === 1.0 && this.curves[0] < 1.0) {
-        endGradient = (this.curves[1] - 1.0) / (this.curves[0] - 1.0);
+    // A few iterations of Newton's method, normally very fast
+    for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+      x2 = this.sampleCurveX(t2) - x;
+      if (Math.abs(x2) < BEZIER_EPSILON) {
+        return t2;
       }
-      return 1.0 + endGradient * (time - 1.0);
+      const d2 = this.sampleCurveDerivativeX(t2);
+      if (Math.abs(d2) < BEZIER_EPSILON) {
+        break;
+      }
+      t2 = t2 - x2 / d2;
+    }
+    if (Math.abs(x2) < BEZIER_EPSILON) {
+      return t2;
     }
 
-    // Binary search to find the closest point on the curve
-    while (start < end) {
-      mid = (start + end) / 2;
-      const xEst = this.calculate(this.curves[0], this.curves[2], mid);
-      if (Math.abs(time - xEst) < 0.00001) {
-        return this.calculate(this.curves[1], this.curves[3], mid);
+    // Fall back to the bisection method for reliability
+    while (t0 < t1) {
+      x2 = this.sampleCurveX(t2);
+      if (Math.abs(x2 - x) < BEZIER_EPSILON) {
+        return t2;
       }
-      if (xEst < time) {
-        start = mid;
+      if (x > x2) {
+        t0 = t2;
       } else {
-        end = mid;
+        t1 = t2;
       }
+      t2 = (t1 + t0) * 0.5;
     }
-    return this.calculate(this.curves[1], this.curves[3], mid);
+
+    // Failure
+    return t2;
+  }
+
+  /**
+   * Calculates the x coordinate at a parametric value
+   * @param t Parametric value (0.0 to 1.0)
+   * @returns X coordinate
+   * @private
+   */
+  private sampleCurveX(t: number): number {
+    return ((this.ax * t + this.bx) * t + this.cx) * t;
+  }
+
+  /**
+   * Calculates the y coordinate at a parametric value
+   * @param t Parametric value (0.0 to 1.0)
+   * @returns Y coordinate
+   * @private
+   */
+  private sampleCurveY(t: number): number {
+    return ((this.ay * t + this.by) * t + this.cy) * t;
   }
 
   /**
-   * Calculates cubic bezier value with given control points
-   * @param a First control point
-   * @param b Second control point
-   * @param m Parametric value (0.0 to 1.0)
-   * @returns Calculated cubic bezier value
+   * Calculates the derivative of the x coordinate at a parametric value
+   * @param t Parametric value (0.0 to 1.0)
+   * @returns Derivative of the x coordinate
    * @private
    */
-  private calculate(a: number, b: number, m: number): number {
-    return (
-      3.0 * a * (1 - m) * (1 - m) * m + 3.0 * b * (1 - m) * m * m + m * m * m
-    );
+  private sampleCurveDerivativeX(t: number): number {
+    return (3.0 * this.ax * t + 2.0 * this.bx) * t + this.cx;
   }
 }
 
@@ -0,0 +1,184 @@
+/**
+ * Ondemand chunk and key byte indices discovery
+ *
+ * This module locates the ondemand chunk in X's homepage and the key byte
+ * indices in its source. Each is tried against several known patterns in
+ * order, and the result names the strategy that matched so callers can
+ * tell when they are running on a fallback.
+ */
+import { ASSETS_BASE_URL } from "./request";
+
+const CHUNK_BASE_PATH = "/responsive-web/client-web/";
+const CHUNK_NAME = "ondemand.s";
+const DEFAULT_CHUNK_SUFFIX = "a.js";
+
+/**
+ * Ondemand chunk located in the homepage
+ */
+export interface OnDemandChunk {
+  /** Content hash of the chunk */
+  hash: string;
+  /** Absolute URL of the chunk */
+  url: string;
+  /** Name of the strategy that found the chunk */
+  strategy: string;
+  /** Whether a strategy other than the primary one matched */
+  fallback: boolean;
+}
+
+/**
+ * Key byte indices located in the ondemand chunk
+ */
+export interface IndicesResult {
+  /** Index of the key byte selecting the frame row */
+  rowIndex: number;
+  /** Indices of the key bytes used to compute the frame time */
+  keyByteIndices: number[];
+  /** Name of the strategy that found the indices */
+  strategy: string;
+  /** Whether a strategy other than the primary one matched */
+  fallback: boolean;
+}
+
+/**
+ * Pattern for finding the ondemand chunk in the homepage source
+ */
+interface ChunkStrategy {
+  name: string;
+  find(source: string): { hash: string; url: string } | null;
+}
+
+/**
+ * Pattern for finding key byte indices in the ondemand chunk source
+ */
+interface IndicesStrategy {
+  name: string;
+  regex: RegExp;
+}
+
+/**
+ * Builds the URL of the ondemand chunk
+ * @param hash Content hash of the chunk
+ * @param suffix File name suffix following the hash
+ * @returns Absolute chunk URL
+ */
+function chunkUrl(hash: string, suffix: string = DEFAULT_CHUNK_SUFFIX): string {
+  return `${ASSETS_BASE_URL}${CHUNK_BASE_PATH}${CHUNK_NAME}.${hash}${suffix}`;
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ * @param value String to escape
+ * @returns Escaped string
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const CHUNK_STRATEGIES: ChunkStrategy[] = [
+  {
+    // Chunk hash map keyed by chunk name: 'ondemand.s':'<hash>'
+    name: "chunk-hash-literal",
+    find(source) {
+      const match = /(['"])ondemand\.s\1:\s*(['"])(\w+)\2/.exec(source);
+      return match ? { hash: match[3], url: chunkUrl(match[3]) } : null;
+    },
+  },
+  {
+    // Webpack runtime with a chunk name map and a chunk hash map keyed by id:
+    // {123:"ondemand.s"} ... {123:"<hash>"} ... +"a.js"
+    name: "webpack-chunk-maps",
+    find(source) {
+      const nameMatch = /[{,]\s*(\d+|(['"])[\w.-]+\2)\s*:\s*(['"])ondemand\.s\3/.exec(
+        source
+      );
+      if (!nameMatch) {
+        return null;
+      }
+      const chunkId = escapeRegex(nameMatch[1]);
+      const hashMatch = new RegExp(
+        `[{,]\\s*${chunkId}\\s*:\\s*(['"])([0-9a-f]{4,})\\1`
+      ).exec(source);
+      if (!hashMatch) {
+        return null;
+      }
+      const suffixMatch = /\[\w+\]\s*\+\s*(['"])(\w*\.js)\1/.exec(
+        source.slice(hashMatch.index)
+      );
+      const suffix = suffixMatch ? suffixMatch[2] : DEFAULT_CHUNK_SUFFIX;
+      return { hash: hashMatch[2], url: chunkUrl(hashMatch[2], suffix) };
+    },
+  },
+  {
+    // Literal chunk URL, e.g. from a preload link or script tag. The hash is
+    // hexadecimal and the "a" webpack appends to it belongs to the suffix
+    name: "chunk-url",
+    find(source) {
+      const match =
+        /(?:https?:)?\/\/[\w.-]+\/responsive-web\/client-web\/ondemand\.s\.([0-9a-f]+?)(a?\.js)/.exec(
+          source
+        );
+      return match ? { hash: match[1], url: chunkUrl(match[1], match[2]) } : null;
+    },
+  },
+];
+
+const INDICES_STRATEGIES: IndicesStrategy[] = [
+  {
+    // (x[12], 16)
+    name: "parseint-radix-16",
+    regex: /\(\w\[(\d{1,2})\],\s*16\)/g,
+  },
+  {
+    // Longer identifiers and looser whitespace: ( xy[ 12 ] , 16 )
+    name: "parseint-radix-16-loose",
+    regex: /\(\s*[\w$]+\[\s*(\d{1,2})\s*\]\s*,\s*16\s*\)/g,
+  },
+  {
+    // Hexadecimal radix literal: (x[12], 0x10)
+    name: "parseint-radix-hex",
+    regex: /\(\s*[\w$]+\[\s*(\d{1,2})\s*\]\s*,\s*0x10\s*\)/gi,
+  },
+];
+
+/**
+ * Finds the ondemand chunk in the homepage source
+ * @param source Homepage HTML or script source
+ * @returns Ondemand chunk, or null if no strategy matched
+ */
+function findOnDemandChunk(source: string): OnDemandChunk | null {
+  for (const [index, strategy] of CHUNK_STRATEGIES.entries()) {
+    const result = strategy.find(source);
+    if (result) {
+      return { ...result, strategy: strategy.name, fallback: index > 0 };
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the key byte indices in the ondemand chunk source
+ * @param source Text of the ondemand chunk
+ * @returns Key byte indices, or null if no strategy matched
+ */
+function findIndices(source: string): IndicesResult | null {
+  for (const [index, strategy] of INDICES_STRATEGIES.entries()) {
+    const indices: number[] = [];
+    let match: RegExpExecArray | null;
+    strategy.regex.lastIndex = 0; // Reset regex index
+    while ((match = strategy.regex.exec(source)) !== null) {
+      indices.push(parseInt(match[1], 10));
+    }
+    if (indices.length) {
+      return {
+        rowIndex: indices[0],
+        keyByteIndices: indices.slice(1),
+        strategy: strategy.name,
+        fallback: index > 0,
+      };
+    }
+  }
+  return null;
+}
+
+export { findOnDemandChunk, findIndices };
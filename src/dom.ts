@@ -0,0 +1,74 @@
+/**
+ * Document-based API
+ *
+ * This module parses pages into documents with linkedom, an optional peer
+ * dependency. It is kept out of the main entry so bundlers never pull in
+ * linkedom for code that only handles HTML strings. Import it from
+ * "twitter-transaction-id/dom".
+ */
+import type { HtmlDocument } from "./html";
+import { fetchHomePage, HomePageResult, MigrationOptions } from "./utils";
+import type { RequestOptions } from "./request";
+
+/**
+ * Outcome of X's homepage migration
+ */
+export interface MigrationResult extends HomePageResult {
+  /** Parsed final document */
+  document: HtmlDocument;
+}
+
+/**
+ * Parses an HTML string into a linkedom document
+ *
+ * linkedom is loaded the first time a document is needed.
+ *
+ * @param html HTML string
+ * @returns Parsed document
+ */
+async function parseDocument(html: string): Promise<HtmlDocument> {
+  let linkedom: typeof import("linkedom");
+  try {
+    linkedom = await import("linkedom");
+  } catch (error) {
+    throw new Error(
+      "The Document-based API requires linkedom. Install it, or pass HTML strings instead of documents",
+      { cause: error }
+    );
+  }
+  return linkedom.parseHTML(html).window.document;
+}
+
+/**
+ * Handles X.com domain migration process and returns the HTML document
+ *
+ * This function navigates through X's migration redirects and forms
+ * to obtain the final HTML document needed for transaction ID generation.
+ * Use performXMigration to also get the cookies, guest token and final URL.
+ *
+ * @param options Optional request options applied to every request
+ * @returns Promise resolving to the Document object from X's homepage
+ */
+async function handleXMigration(
+  options: RequestOptions = {}
+): Promise<HtmlDocument> {
+  const { document } = await performXMigration(options);
+  return document;
+}
+
+/**
+ * Performs X.com's domain migration and returns the resulting session
+ *
+ * Like fetchHomePage, and also parses the final page into a document.
+ *
+ * @param options Optional request options and cookie jar
+ * @returns Promise resolving to the final document, cookies and guest token
+ */
+async function performXMigration(
+  options: MigrationOptions = {}
+): Promise<MigrationResult> {
+  const homePage = await fetchHomePage(options);
+  return { document: await parseDocument(homePage.html), ...homePage };
+}
+
+export { parseDocument, handleXMigration, performXMigration };
@@ -0,0 +1,137 @@
+/**
+ * Error classes for X client transaction ID generation
+ *
+ * Every error thrown while fetching and extracting key material is a
+ * TransactionIdError carrying the stage it failed in, the HTTP status and
+ * URL where relevant, and the original cause.
+ */
+
+/**
+ * Stage of key material extraction an error occurred in
+ */
+export type ErrorStage =
+  | "migration"
+  | "ondemand"
+  | "key"
+  | "frames"
+  | "indices"
+  | "guest"
+  | "graphql";
+
+/**
+ * Additional details attached to a TransactionIdError
+ */
+export interface TransactionIdErrorOptions {
+  /** HTTP status of the failed response */
+  status?: number;
+  /** URL of the failed request */
+  url?: string;
+  /** Original error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the library
+ */
+export class TransactionIdError extends Error {
+  readonly stage: ErrorStage;
+  readonly status?: number;
+  readonly url?: string;
+
+  /**
+   * Creates a new TransactionIdError
+   * @param stage Stage the error occurred in
+   * @param message Error message
+   * @param options Optional status, URL and cause
+   */
+  constructor(
+    stage: ErrorStage,
+    message: string,
+    options: TransactionIdErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "TransactionIdError";
+    this.stage = stage;
+    this.status = options.status;
+    this.url = options.url;
+  }
+}
+
+/**
+ * Thrown when fetching X's homepage or following its migration fails
+ */
+export class MigrationError extends TransactionIdError {
+  constructor(message: string, options: TransactionIdErrorOptions = {}) {
+    super("migration", message, options);
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Thrown when the ondemand file cannot be fetched
+ */
+export class OnDemandFetchError extends TransactionIdError {
+  constructor(message: string, options: TransactionIdErrorOptions = {}) {
+    super("ondemand", message, options);
+    this.name = "OnDemandFetchError";
+  }
+}
+
+/**
+ * Thrown when the twitter-site-verification key is missing from the homepage
+ */
+export class VerificationKeyError extends TransactionIdError {
+  constructor(message: string, options: TransactionIdErrorOptions = {}) {
+    super("key", message, options);
+    this.name = "VerificationKeyError";
+  }
+}
+
+/**
+ * Thrown when the loading animation frames are missing or malformed
+ */
+export class AnimationFrameError extends TransactionIdError {
+  constructor(message: string, options: TransactionIdErrorOptions = {}) {
+    super("frames", message, options);
+    this.name = "AnimationFrameError";
+  }
+}
+
+/**
+ * Thrown when the key byte indices cannot be extracted
+ */
+export class IndicesExtractionError extends TransactionIdError {
+  constructor(message: string, options: TransactionIdErrorOptions = {}) {
+    super("indices", message, options);
+    this.name = "IndicesExtractionError";
+  }
+}
+
+/**
+ * Thrown when a guest token cannot be activated
+ */
+export class GuestTokenError extends TransactionIdError {
+  constructor(message: string, options: TransactionIdErrorOptions = {}) {
+    super("guest", message, options);
+    this.name = "GuestTokenError";
+  }
+}
+
+/**
+ * Thrown when the GraphQL operations cannot be loaded from the main bundle
+ */
+export class GraphQLRegistryError extends TransactionIdError {
+  constructor(message: string, options: TransactionIdErrorOptions = {}) {
+    super("graphql", message, options);
+    this.name = "GraphQLRegistryError";
+  }
+}
+
+/**
+ * Receives diagnostic messages from the library instead of the console
+ */
+export interface Logger {
+  debug?(message: string, details?: unknown): void;
+  warn?(message: string, details?: unknown): void;
+  error?(message: string, details?: unknown): void;
+}
@@ -0,0 +1,107 @@
+/**
+ * Prepared transaction ID generator for hot paths
+ *
+ * This module provides a generator built once from key material. It keeps
+ * the decoded key bytes and hashes with a bundled pure JavaScript SHA-256,
+ * so transaction IDs are generated synchronously.
+ */
+import { sha256 } from "./sha256";
+import {
+  encodeTransactionId,
+  GenerateOptions,
+  getHashInput,
+  getKeyBytes,
+  resolveRandomByte,
+  resolveTimeNow,
+  toGenerateOptions,
+} from "./transaction";
+
+/**
+ * HTTP method and API endpoint path of a request to sign
+ */
+export interface TransactionIdRequest {
+  method: string;
+  path: string;
+}
+
+/**
+ * Generates transaction IDs synchronously from fixed key material
+ */
+class TransactionIdGenerator {
+  private keyBytes: Uint8Array;
+  private animationKey: string;
+  private options: GenerateOptions;
+  private encoder = new TextEncoder();
+
+  /**
+   * Creates a new TransactionIdGenerator instance
+   * @param key Key from create function
+   * @param animationKey Animation key from create function
+   * @param options Default clock and random source
+   */
+  constructor(key: string, animationKey: string, options: GenerateOptions = {}) {
+    this.keyBytes = Uint8Array.from(getKeyBytes(key));
+    this.animationKey = animationKey;
+    this.options = options;
+  }
+
+  /**
+   * Generates a transaction ID
+   * @param method HTTP method (GET, POST, etc.)
+   * @param path API endpoint path
+   * @param timeNow Optional timestamp, or options overriding the defaults
+   * @returns Base64 encoded transaction ID
+   */
+  generate(
+    method: string,
+    path: string,
+    timeNow?: number | GenerateOptions
+  ): string {
+    const options = { ...this.options, ...toGenerateOptions(timeNow) };
+    return this.generateAt(method, path, resolveTimeNow(options), options);
+  }
+
+  /**
+   * Generates transaction IDs for many requests sharing one timestamp
+   * @param requests Requests to sign
+   * @param timeNow Optional timestamp, or options overriding the defaults
+   * @returns Base64 encoded transaction IDs in request order
+   */
+  generateBatch(
+    requests: TransactionIdRequest[],
+    timeNow?: number | GenerateOptions
+  ): string[] {
+    const options = { ...this.options, ...toGenerateOptions(timeNow) };
+    const time = resolveTimeNow(options);
+    return requests.map(({ method, path }) =>
+      this.generateAt(method, path, time, options)
+    );
+  }
+
+  /**
+   * Generates a transaction ID for a resolved timestamp
+   * @param method HTTP method
+   * @param path API endpoint path
+   * @param time Timestamp in seconds since the epoch
+   * @param options Generate options
+   * @returns Base64 encoded transaction ID
+   * @private
+   */
+  private generateAt(
+    method: string,
+    path: string,
+    time: number,
+    options: GenerateOptions
+  ): string {
+    const data = getHashInput(method, path, time, this.animationKey);
+    const hashBytes = sha256(this.encoder.encode(data));
+    return encodeTransactionId(
+      this.keyBytes,
+      time,
+      hashBytes,
+      resolveRandomByte(options)
+    );
+  }
+}
+
+export default TransactionIdGenerator;
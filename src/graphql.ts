@@ -0,0 +1,191 @@
+/**
+ * GraphQL operation registry
+ *
+ * This module finds X's main.<hash>.js bundle on the homepage and parses
+ * the GraphQL operations it declares, so API paths can be built from an
+ * operation name instead of a hardcoded query ID that rotates on every
+ * deploy.
+ */
+import { GraphQLRegistryError } from "./errors";
+import { getProfileHeaders } from "./profiles";
+import { discardResponse, readText, request, RequestOptions } from "./request";
+import type { HtmlDocument } from "./html";
+
+const MAIN_BUNDLE_REGEX =
+  /https:\/\/abs\.twimg\.com\/responsive-web\/client-web[\w-]*\/main\.\w+\.js/;
+const QUERY_ID_REGEX = /queryId:\s*["']([\w-]+)["']/g;
+const OPERATION_NAME_REGEX = /operationName:\s*["'](\w+)["']/;
+const OPERATION_TYPE_REGEX = /operationType:\s*["'](\w+)["']/;
+const FEATURE_SWITCHES_REGEX = /featureSwitches:\s*\[([^\]]*)\]/;
+const FIELD_TOGGLES_REGEX = /fieldToggles:\s*\[([^\]]*)\]/;
+const STRING_LITERAL_REGEX = /["']([^"']+)["']/g;
+
+export const DEFAULT_GRAPHQL_PREFIX = "/graphql";
+
+/**
+ * GraphQL operation declared in the main bundle
+ */
+export interface GraphQLOperation {
+  operationName: string;
+  /** Query ID in the request path, changes whenever X redeploys */
+  queryId: string;
+  /** "query" or "mutation" */
+  operationType: string;
+  /** Feature switches the operation expects in its features parameter */
+  featureSwitches: string[];
+  /** Field toggles the operation accepts in its fieldToggles parameter */
+  fieldToggles: string[];
+}
+
+/**
+ * GraphQL operations keyed by operation name
+ */
+export type GraphQLOperations = Record<string, GraphQLOperation>;
+
+/**
+ * Finds the URL of the main bundle referenced by the homepage
+ * @param homePage Homepage HTML string or document
+ * @returns Main bundle URL, or null if not found
+ */
+function getMainBundleUrl(homePage: string | HtmlDocument): string | null {
+  const html =
+    typeof homePage === "string" ? homePage : homePage.documentElement.outerHTML;
+  return MAIN_BUNDLE_REGEX.exec(html)?.[0] ?? null;
+}
+
+/**
+ * Parses the GraphQL operations declared in the main bundle
+ *
+ * Each operation is an object literal such as
+ * {queryId:"...",operationName:"...",operationType:"query",metadata:{featureSwitches:[...],fieldToggles:[...]}}.
+ * Fields are read from the opening brace before each queryId up to the
+ * next queryId, so their order within the literal does not matter.
+ *
+ * @param source Text of the main bundle
+ * @returns Operations keyed by operation name
+ */
+function parseGraphQLOperations(source: string): GraphQLOperations {
+  const matches = Array.from(source.matchAll(QUERY_ID_REGEX));
+  const operations: GraphQLOperations = {};
+
+  matches.forEach((match, i) => {
+    // The object literal starts shortly before queryId and ends before the next one
+    const start = source.lastIndexOf("{", match.index);
+    const end = matches[i + 1]?.index ?? source.length;
+    const literal = source.slice(start, end);
+
+    const operationName = OPERATION_NAME_REGEX.exec(literal)?.[1];
+    if (!operationName) {
+      return;
+    }
+    operations[operationName] = {
+      operationName,
+      queryId: match[1],
+      operationType: OPERATION_TYPE_REGEX.exec(literal)?.[1] ?? "query",
+      featureSwitches: parseStringList(FEATURE_SWITCHES_REGEX.exec(literal)?.[1]),
+      fieldToggles: parseStringList(FIELD_TOGGLES_REGEX.exec(literal)?.[1]),
+    };
+  });
+
+  return operations;
+}
+
+/**
+ * Fetches the main bundle referenced by the homepage and parses its operations
+ * @param homePage Homepage HTML string or document
+ * @param options Optional request options for the bundle fetch
+ * @returns Operations keyed by operation name
+ */
+async function fetchGraphQLOperations(
+  homePage: string | HtmlDocument,
+  options: RequestOptions = {}
+): Promise<GraphQLOperations> {
+  const url = getMainBundleUrl(homePage);
+  if (!url) {
+    throw new GraphQLRegistryError("Couldn't find the main bundle in the page source");
+  }
+
+  let response: Response;
+  try {
+    response = await request(
+      url,
+      { headers: getProfileHeaders(options.profile, "script") },
+      options
+    );
+  } catch (error) {
+    throw new GraphQLRegistryError("Failed to fetch main bundle", { url, cause: error });
+  }
+  if (!response.ok) {
+    await discardResponse(response);
+    throw new GraphQLRegistryError(
+      `Failed to fetch main bundle: ${response.statusText}`,
+      { status: response.status, url }
+    );
+  }
+
+  let source: string;
+  try {
+    source = await readText(response);
+  } catch (error) {
+    throw new GraphQLRegistryError("Failed to read main bundle", {
+      status: response.status,
+      url,
+      cause: error,
+    });
+  }
+  return requireOperations(parseGraphQLOperations(source), url);
+}
+
+/**
+ * Builds the request path of an operation, as passed to generateTransactionId
+ * @param operations Operations keyed by operation name
+ * @param operationName Name of the operation, such as UserByScreenName
+ * @param prefix Path prefix: /graphql for api.x.com, /i/api/graphql for x.com
+ * @returns Path such as /graphql/<queryId>/UserByScreenName
+ */
+function getGraphQLPath(
+  operations: GraphQLOperations,
+  operationName: string,
+  prefix: string = DEFAULT_GRAPHQL_PREFIX
+): string {
+  const operation = operations[operationName];
+  if (!operation) {
+    throw new GraphQLRegistryError(`Unknown GraphQL operation: ${operationName}`);
+  }
+  return `${prefix.replace(/\/+$/, "")}/${operation.queryId}/${operation.operationName}`;
+}
+
+/**
+ * Parses the string literals of an array literal body
+ * @param list Text between the brackets of an array literal
+ * @returns Strings in the array
+ */
+function parseStringList(list: string | undefined): string[] {
+  return list ? Array.from(list.matchAll(STRING_LITERAL_REGEX), (match) => match[1]) : [];
+}
+
+/**
+ * Throws if a bundle declared no operations
+ * @param operations Parsed operations
+ * @param source URL or path of the bundle, used in the error
+ * @returns The operations
+ */
+function requireOperations(
+  operations: GraphQLOperations,
+  source: string
+): GraphQLOperations {
+  if (!Object.keys(operations).length) {
+    throw new GraphQLRegistryError("No GraphQL operations found in main bundle", {
+      url: source,
+    });
+  }
+  return operations;
+}
+
+export {
+  getMainBundleUrl,
+  parseGraphQLOperations,
+  fetchGraphQLOperations,
+  getGraphQLPath,
+  requireOperations,
+};
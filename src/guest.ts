@@ -0,0 +1,329 @@
+/**
+ * Guest session manager
+ *
+ * This module activates guest tokens through X's guest/activate.json
+ * endpoint, pairs each token with the key material and cookies of the same
+ * homepage visit, caches the session until it expires and rotates the
+ * token when X reports it as exhausted.
+ */
+import CookieJar from "./cookies";
+import { GuestTokenError, Logger } from "./errors";
+import { getProfileHeaders } from "./profiles";
+import { discardResponse, readText, request, RequestOptions, X_BASE_URL } from "./request";
+import { create, generateTransactionId, KeyMaterial } from "./transaction";
+import { fetchHomePage } from "./utils";
+
+export const DEFAULT_BEARER_TOKEN =
+  "AAAAAAAAAAAAAAAAAAAAANRILgAAAAAAnNwIzUejRCOuH5E6I8xnZz4puTs%3D1Zv7ttfk8LF81IUq16cHjhLTvJu4FA33AGWWjCpTnA";
+export const DEFAULT_ACTIVATE_URL = "https://api.x.com/1.1/guest/activate.json";
+
+// Matches the Max-Age of the gt cookie set by the homepage
+const DEFAULT_TTL = 9000 * 1000;
+
+// X API error codes meaning the guest token can no longer be used
+const EXHAUSTED_ERROR_CODES = [88, 239];
+
+/**
+ * Options for GuestSessionManager
+ */
+export interface GuestSessionOptions {
+  /** Bearer token of X's web client */
+  bearerToken?: string;
+  /** URL of the guest token activation endpoint */
+  activateUrl?: string;
+  /** Time in milliseconds before a guest token is replaced (defaults to 2.5 hours) */
+  ttl?: number;
+  /** Request options for the homepage, ondemand file and activation requests */
+  request?: RequestOptions;
+  /** Receives diagnostic messages */
+  logger?: Logger;
+}
+
+/**
+ * Guest token together with the key material and cookies of its session
+ */
+export interface GuestSession {
+  guestToken: string;
+  material: KeyMaterial;
+  cookies: CookieJar;
+  /** Unix time in milliseconds the guest token was activated */
+  activatedAt: number;
+  /** Unix time in milliseconds the guest token expires */
+  expiresAt: number;
+}
+
+/**
+ * Activates, caches and rotates guest tokens
+ *
+ * A session is created on first use from one homepage visit: the key
+ * material, the cookies and an activated guest token. Rotating replaces
+ * only the guest token and keeps the rest of the session. Concurrent
+ * callers share a single in-flight refresh or rotation.
+ */
+class GuestSessionManager {
+  private bearerToken: string;
+  private activateUrl: string;
+  private ttl: number;
+  private requestOptions: RequestOptions;
+  private logger?: Logger;
+  private session: GuestSession | null = null;
+  private pending: Promise<GuestSession> | null = null;
+
+  /**
+   * Creates a new GuestSessionManager instance
+   * @param options Optional guest session options
+   */
+  constructor(options: GuestSessionOptions = {}) {
+    this.bearerToken = options.bearerToken ?? DEFAULT_BEARER_TOKEN;
+    this.activateUrl = options.activateUrl ?? DEFAULT_ACTIVATE_URL;
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.requestOptions = options.request ?? {};
+    this.logger = options.logger;
+  }
+
+  /**
+   * Whether a session is loaded and its guest token has not expired
+   */
+  get isFresh(): boolean {
+    return this.session !== null && Date.now() < this.session.expiresAt;
+  }
+
+  /**
+   * Returns the current session without creating or refreshing it
+   * @returns Guest session, or null if none is loaded
+   */
+  peek(): GuestSession | null {
+    return this.session;
+  }
+
+  /**
+   * Returns the current session, creating a new one if it has expired
+   * @returns Guest session
+   */
+  async getSession(): Promise<GuestSession> {
+    if (this.session && this.isFresh) {
+      return this.session;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Creates a new session from a fresh homepage visit
+   * @returns Guest session
+   */
+  refresh(): Promise<GuestSession> {
+    return this.share(() => this.load());
+  }
+
+  /**
+   * Replaces the guest token, keeping the key material and cookies
+   * @returns Guest session with a new guest token
+   */
+  rotate(): Promise<GuestSession> {
+    return this.share(async () => {
+      if (!this.session) {
+        return this.load();
+      }
+      const { material, cookies } = this.session;
+      return this.store(await this.activate(cookies), material, cookies);
+    });
+  }
+
+  /**
+   * Rotates the guest token if a response says it is exhausted
+   * @param response Response of a request made with the current guest token
+   * @returns True if the guest token was rotated
+   */
+  async handleResponse(response: Response): Promise<boolean> {
+    if (!(await isGuestTokenExhausted(response))) {
+      return false;
+    }
+    this.logger?.warn?.("Guest token exhausted, rotating", {
+      status: response.status,
+    });
+    await this.rotate();
+    return true;
+  }
+
+  /**
+   * Builds the headers for a guest request to X's API
+   * @param method HTTP method (GET, POST, etc.)
+   * @param url Absolute request URL
+   * @returns Browser profile, authorization, guest token, cookie and transaction ID headers
+   */
+  async getHeaders(method: string, url: string): Promise<Record<string, string>> {
+    const { guestToken, material, cookies } = await this.getSession();
+    const headers: Record<string, string> = {
+      ...getProfileHeaders(this.requestOptions.profile, "api"),
+      authorization: `Bearer ${this.bearerToken}`,
+      "x-guest-token": guestToken,
+      "x-client-transaction-id": await generateTransactionId(
+        method,
+        new URL(url).pathname,
+        material.key,
+        material.animationKey,
+        { clockOffset: material.clockOffset }
+      ),
+    };
+    const cookie = cookies.getCookieHeader(url);
+    if (cookie) {
+      headers.cookie = cookie;
+    }
+    return headers;
+  }
+
+  /**
+   * Runs a session update, sharing any update already in flight
+   * @param update Function producing the new session
+   * @returns Guest session
+   * @private
+   */
+  private share(update: () => Promise<GuestSession>): Promise<GuestSession> {
+    if (!this.pending) {
+      this.pending = update().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Visits the homepage, extracts key material and activates a guest token
+   * @returns Guest session
+   * @private
+   */
+  private async load(): Promise<GuestSession> {
+    const { html, cookies, guestToken: homepageToken, clockOffset } =
+      await fetchHomePage(this.requestOptions);
+    let material = await create(html, {
+      ...this.requestOptions,
+      logger: this.logger,
+    });
+    if (clockOffset !== null) {
+      material = { ...material, clockOffset };
+    }
+
+    let guestToken: string;
+    try {
+      guestToken = await this.activate(cookies);
+    } catch (error) {
+      if (!homepageToken) {
+        throw error;
+      }
+      // The homepage token still belongs to this session
+      this.logger?.warn?.("Guest token activation failed, using the homepage token", error);
+      guestToken = homepageToken;
+    }
+    return this.store(guestToken, material, cookies);
+  }
+
+  /**
+   * Activates a new guest token
+   * @param cookies Cookies of the session the token belongs to
+   * @returns Guest token
+   * @private
+   */
+  private async activate(cookies: CookieJar): Promise<string> {
+    const url = this.activateUrl;
+    const headers: Record<string, string> = {
+      ...getProfileHeaders(this.requestOptions.profile, "api"),
+      authorization: `Bearer ${this.bearerToken}`,
+    };
+    const cookie = cookies.getCookieHeader(url);
+    if (cookie) {
+      headers.cookie = cookie;
+    }
+
+    let response: Response;
+    try {
+      response = await request(url, { method: "POST", headers }, this.requestOptions);
+    } catch (error) {
+      throw new GuestTokenError("Failed to activate guest token", { url, cause: error });
+    }
+    if (!response.ok) {
+      await discardResponse(response);
+      throw new GuestTokenError(
+        `Failed to activate guest token: ${response.statusText}`,
+        { status: response.status, url }
+      );
+    }
+
+    let guestToken: unknown;
+    try {
+      guestToken = (JSON.parse(await readText(response)) as { guest_token?: unknown }).guest_token;
+    } catch (error) {
+      throw new GuestTokenError("Failed to parse guest token response", {
+        status: response.status,
+        url,
+        cause: error,
+      });
+    }
+    if (typeof guestToken !== "string" || !guestToken) {
+      throw new GuestTokenError("Guest token response has no guest_token", {
+        status: response.status,
+        url,
+      });
+    }
+    return guestToken;
+  }
+
+  /**
+   * Stores a new session and sets its gt cookie
+   * @param guestToken Guest token
+   * @param material Key material of the session
+   * @param cookies Cookies of the session
+   * @returns Stored session
+   * @private
+   */
+  private store(
+    guestToken: string,
+    material: KeyMaterial,
+    cookies: CookieJar
+  ): GuestSession {
+    const activatedAt = Date.now();
+    cookies.setCookie(
+      `gt=${guestToken}; Max-Age=${Math.floor(this.ttl / 1000)}; Domain=.x.com; Path=/; Secure`,
+      X_BASE_URL,
+      activatedAt
+    );
+    this.session = {
+      guestToken,
+      material,
+      cookies,
+      activatedAt,
+      expiresAt: activatedAt + this.ttl,
+    };
+    return this.session;
+  }
+}
+
+/**
+ * Checks whether a response says the guest token is exhausted
+ *
+ * X answers with 429, or with error code 88 (rate limit exceeded) or 239
+ * (bad guest token). The response body is read from a clone.
+ *
+ * @param response Response of a request made with a guest token
+ * @returns True if the guest token should be rotated
+ */
+async function isGuestTokenExhausted(response: Response): Promise<boolean> {
+  if (response.status === 429) {
+    return true;
+  }
+  if (response.ok) {
+    return false;
+  }
+  try {
+    const body = (await response.clone().json()) as {
+      errors?: { code?: number }[];
+    };
+    return (body.errors ?? []).some(
+      (error) => error.code !== undefined && EXHAUSTED_ERROR_CODES.includes(error.code)
+    );
+  } catch {
+    return false;
+  }
+}
+
+export { isGuestTokenExhausted };
+export default GuestSessionManager;
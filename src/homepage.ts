@@ -0,0 +1,82 @@
+/**
+ * Homepage sources
+ *
+ * This module reads the parts of X's homepage that key material is derived
+ * from, either from a parsed document or straight from the HTML string
+ * with the built-in scanner. Both produce the same values for the same
+ * page, so only the Document-based API needs linkedom.
+ */
+import { getDescendantTags, HtmlDocument, scanTags } from "./html";
+
+const VERIFICATION_KEY_NAME = "twitter-site-verification";
+const FRAME_ID_PREFIX = "loading-x-anim";
+
+/**
+ * Parts of the homepage used to derive key material
+ */
+export interface HomePageSource {
+  /** HTML searched for the ondemand file and main bundle URLs */
+  html: string;
+  /** Content of the twitter-site-verification meta tag, or "" if missing */
+  key: string;
+  /** Data of every path in each loading-x-anim frame, null for paths without data */
+  frames: (string | null)[][];
+}
+
+/**
+ * Reads a homepage from an HTML string or a document
+ *
+ * HTML strings are read with the built-in scanner and never touch linkedom.
+ *
+ * @param homePage Homepage HTML string or document
+ * @returns Homepage source
+ */
+function readHomePage(homePage: string | HtmlDocument): HomePageSource {
+  return typeof homePage === "string"
+    ? readHomePageHtml(homePage)
+    : readHomePageDocument(homePage);
+}
+
+/**
+ * Reads a homepage from its HTML string
+ * @param html Homepage HTML string
+ * @returns Homepage source
+ */
+function readHomePageHtml(html: string): HomePageSource {
+  const tags = scanTags(html);
+  const keyTag = tags.find(
+    (tag) => !tag.closing && tag.attributes.name === VERIFICATION_KEY_NAME
+  );
+  const frames: (string | null)[][] = [];
+  tags.forEach((tag, index) => {
+    if (!tag.closing && tag.attributes.id?.startsWith(FRAME_ID_PREFIX)) {
+      frames.push(
+        getDescendantTags(tags, index)
+          .filter((child) => child.name === "path" && !child.closing)
+          .map((path) => path.attributes.d ?? null)
+      );
+    }
+  });
+
+  return { html, key: keyTag?.attributes.content ?? "", frames };
+}
+
+/**
+ * Reads a homepage from a parsed document
+ * @param document Homepage document
+ * @returns Homepage source
+ */
+function readHomePageDocument(document: HtmlDocument): HomePageSource {
+  const keyElement = document.querySelector(`[name='${VERIFICATION_KEY_NAME}']`);
+  const frames = Array.from(document.querySelectorAll(`[id^='${FRAME_ID_PREFIX}']`));
+
+  return {
+    html: document.documentElement.outerHTML,
+    key: keyElement?.getAttribute("content") ?? "",
+    frames: frames.map((frame) =>
+      Array.from(frame.querySelectorAll("path"), (path) => path.getAttribute("d"))
+    ),
+  };
+}
+
+export { readHomePage, readHomePageHtml, readHomePageDocument };
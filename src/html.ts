@@ -0,0 +1,199 @@
+/**
+ * Raw HTML scanning
+ *
+ * This module reads tags and attributes straight from an HTML string, so
+ * key material and the migration form can be extracted without a DOM
+ * implementation.
+ */
+// Elements whose content is text, so tags inside them are not real tags
+const RAW_TEXT_ELEMENTS = ["script", "style", "textarea", "title"];
+// Elements that never have content or an end tag
+const VOID_ELEMENTS = [
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+];
+
+const TAG_NAME_REGEX = /[a-zA-Z][^\s/>]*/y;
+const ATTRIBUTE_REGEX =
+  /[\s/]*([^\s"'>/=][^\s"'>/=]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]*)))?/y;
+const ENTITY_REGEX = /&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|(amp|lt|gt|quot|apos|nbsp));/g;
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+/**
+ * Start or end tag found in an HTML string
+ */
+export interface HtmlTag {
+  /** Tag name in lower case */
+  name: string;
+  /** Attributes with lower case names and decoded values */
+  attributes: Record<string, string>;
+  /** Whether this is an end tag such as </svg> */
+  closing: boolean;
+  /** Whether the start tag has no content (a void element or ending in />) */
+  empty: boolean;
+  /** Position of the tag in the HTML string */
+  offset: number;
+}
+
+/**
+ * Element of a parsed document, as far as this library reads it
+ *
+ * Declared structurally so the public types do not depend on linkedom.
+ * linkedom and browser elements both satisfy it.
+ */
+export interface HtmlElement {
+  readonly outerHTML: string;
+  getAttribute(name: string): string | null;
+  querySelectorAll(selectors: string): ArrayLike<HtmlElement>;
+}
+
+/**
+ * Parsed document, as far as this library reads it
+ *
+ * linkedom documents and browser documents both satisfy it.
+ */
+export interface HtmlDocument {
+  readonly documentElement: HtmlElement;
+  querySelector(selectors: string): HtmlElement | null;
+  querySelectorAll(selectors: string): ArrayLike<HtmlElement>;
+}
+
+/**
+ * Lists the tags of an HTML string in document order
+ *
+ * Comments, doctypes and the content of script, style, textarea and title
+ * elements are skipped. When an attribute appears more than once, the
+ * first value is kept, as browsers do.
+ *
+ * @param html HTML string
+ * @returns Start and end tags
+ */
+function scanTags(html: string): HtmlTag[] {
+  const tags: HtmlTag[] = [];
+  let position = html.indexOf("<");
+
+  while (position !== -1 && position < html.length) {
+    if (html.startsWith("<!--", position)) {
+      const end = html.indexOf("-->", position + 4);
+      position = end === -1 ? -1 : html.indexOf("<", end + 3);
+      continue;
+    }
+    if (html[position + 1] === "!" || html[position + 1] === "?") {
+      const end = html.indexOf(">", position);
+      position = end === -1 ? -1 : html.indexOf("<", end + 1);
+      continue;
+    }
+
+    const closing = html[position + 1] === "/";
+    TAG_NAME_REGEX.lastIndex = position + (closing ? 2 : 1);
+    const nameMatch = TAG_NAME_REGEX.exec(html);
+    if (!nameMatch) {
+      // A lone "<" is text
+      position = html.indexOf("<", position + 1);
+      continue;
+    }
+
+    const name = nameMatch[0].toLowerCase();
+    const attributes: Record<string, string> = {};
+    let cursor = TAG_NAME_REGEX.lastIndex;
+    for (;;) {
+      ATTRIBUTE_REGEX.lastIndex = cursor;
+      const match = ATTRIBUTE_REGEX.exec(html);
+      if (!match) {
+        break;
+      }
+      const attributeName = match[1].toLowerCase();
+      if (!(attributeName in attributes)) {
+        attributes[attributeName] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+      }
+      cursor = ATTRIBUTE_REGEX.lastIndex;
+    }
+    const end = html.indexOf(">", cursor);
+    if (end === -1) {
+      break;
+    }
+
+    const empty =
+      !closing && (VOID_ELEMENTS.includes(name) || html[end - 1] === "/");
+    tags.push({ name, attributes, closing, empty, offset: position });
+    position = end + 1;
+
+    if (!closing && !empty && RAW_TEXT_ELEMENTS.includes(name)) {
+      const contentEnd = new RegExp(`</${name}`, "ig");
+      contentEnd.lastIndex = position;
+      position = contentEnd.exec(html)?.index ?? -1;
+      continue;
+    }
+    position = html.indexOf("<", position);
+  }
+
+  return tags;
+}
+
+/**
+ * Lists the tags inside an element
+ *
+ * The element ends at the end tag that balances its start tag, or at the
+ * end of the document when it is never closed.
+ *
+ * @param tags Tags returned by scanTags
+ * @param index Index of the element's start tag
+ * @returns Tags between the start tag and its end tag
+ */
+function getDescendantTags(tags: HtmlTag[], index: number): HtmlTag[] {
+  const { name, empty } = tags[index];
+  if (empty) {
+    return [];
+  }
+  let depth = 0;
+  for (let i = index + 1; i < tags.length; i++) {
+    const tag = tags[i];
+    if (tag.name !== name || tag.empty) {
+      continue;
+    }
+    if (!tag.closing) {
+      depth++;
+    } else if (depth-- === 0) {
+      return tags.slice(index + 1, i);
+    }
+  }
+  return tags.slice(index + 1);
+}
+
+/**
+ * Decodes character references in an attribute value
+ * @param value Raw attribute value
+ * @returns Decoded value
+ */
+function decodeEntities(value: string): string {
+  if (!value.includes("&")) {
+    return value;
+  }
+  return value.replace(ENTITY_REGEX, (entity, decimal, hex, named) => {
+    if (named) {
+      return NAMED_ENTITIES[named];
+    }
+    const codePoint = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+export { scanTags, getDescendantTags };
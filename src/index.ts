@@ -1,9 +1,160 @@
-import { create , generateTransactionId } from "./transaction";
-import { handleXMigration } from "./utils";
+
+import {
+  create,
+  createFromSources,
+  getOnDemandFileUrl,
+  explainAnimationKey,
+  generateTransactionId,
+  decodeTransactionId,
+  verifyTransactionId,
+  mathRandomByte,
+  secureRandomByte,
+} from "./transaction";
+import type {
+  AnimateTrace,
+  AnimationKeyTrace,
+  CreateOptions,
+  DecodedTransactionId,
+  DiscoveryStrategies,
+  GenerateOptions,
+  KeyMaterial,
+  TransactionIdVerification,
+} from "./transaction";
+import { loadWebCrypto } from "./runtime";
+import ClientTransaction from "./client";
+import type { ClientTransactionOptions } from "./client";
+import { exportSnapshot, validateSnapshot, fromSnapshot } from "./snapshot";
+import type { KeyMaterialSnapshot } from "./snapshot";
+import { createMemoryCache, createKeyValueCache } from "./cache";
+import type { CacheAdapter, KeyValueCacheOptions, KeyValueStore } from "./cache";
+import TransactionIdGenerator from "./generator";
+import type { TransactionIdRequest } from "./generator";
+import { createXFetch } from "./xfetch";
+import type { XFetchOptions } from "./xfetch";
+import { fetchHomePage } from "./utils";
+import type { HomePageResult, MigrationOptions } from "./utils";
+import CookieJar from "./cookies";
+import type { Cookie } from "./cookies";
+import GuestSessionManager, { isGuestTokenExhausted } from "./guest";
+import type { GuestSession, GuestSessionOptions } from "./guest";
+import { BROWSER_PROFILES, getBrowserProfile, getProfileHeaders } from "./profiles";
+import type { BrowserProfile, BrowserProfileName, RequestDestination } from "./profiles";
+import KeyMaterialWatcher from "./watcher";
+import type {
+  Change,
+  Indices,
+  KeyMaterialField,
+  KeyMaterialWatcherEvent,
+  KeyMaterialWatcherEvents,
+  KeyMaterialWatcherListener,
+  KeyMaterialWatcherOptions,
+} from "./watcher";
+import {
+  getMainBundleUrl,
+  parseGraphQLOperations,
+  fetchGraphQLOperations,
+  getGraphQLPath,
+} from "./graphql";
+import type { GraphQLOperation, GraphQLOperations } from "./graphql";
+import { findOnDemandChunk, findIndices } from "./discovery";
+import type { IndicesResult, OnDemandChunk } from "./discovery";
+import {
+  TransactionIdError,
+  MigrationError,
+  OnDemandFetchError,
+  VerificationKeyError,
+  AnimationFrameError,
+  IndicesExtractionError,
+  GuestTokenError,
+  GraphQLRegistryError,
+} from "./errors";
+import type { ErrorStage, Logger, TransactionIdErrorOptions } from "./errors";
+import type { RequestOptions } from "./request";
+import type { HtmlDocument, HtmlElement } from "./html";
 
 
 export {
   create,
+  createFromSources,
+  getOnDemandFileUrl,
+  explainAnimationKey,
   generateTransactionId,
-  handleXMigration,
+  decodeTransactionId,
+  verifyTransactionId,
+  mathRandomByte,
+  secureRandomByte,
+  loadWebCrypto,
+  fetchHomePage,
+  CookieJar,
+  ClientTransaction,
+  TransactionIdGenerator,
+  exportSnapshot,
+  validateSnapshot,
+  fromSnapshot,
+  createMemoryCache,
+  createKeyValueCache,
+  createXFetch,
+  GuestSessionManager,
+  isGuestTokenExhausted,
+  BROWSER_PROFILES,
+  getBrowserProfile,
+  getProfileHeaders,
+  KeyMaterialWatcher,
+  getMainBundleUrl,
+  parseGraphQLOperations,
+  fetchGraphQLOperations,
+  getGraphQLPath,
+  findOnDemandChunk,
+  findIndices,
+  TransactionIdError,
+  MigrationError,
+  OnDemandFetchError,
+  VerificationKeyError,
+  AnimationFrameError,
+  IndicesExtractionError,
+  GuestTokenError,
+  GraphQLRegistryError,
+};
+
+export type {
+  AnimateTrace,
+  AnimationKeyTrace,
+  BrowserProfile,
+  BrowserProfileName,
+  CacheAdapter,
+  Change,
+  ClientTransactionOptions,
+  Cookie,
+  CreateOptions,
+  DecodedTransactionId,
+  DiscoveryStrategies,
+  ErrorStage,
+  GenerateOptions,
+  GraphQLOperation,
+  GraphQLOperations,
+  GuestSession,
+  GuestSessionOptions,
+  HomePageResult,
+  HtmlDocument,
+  HtmlElement,
+  Indices,
+  IndicesResult,
+  KeyMaterial,
+  KeyMaterialField,
+  KeyMaterialSnapshot,
+  KeyMaterialWatcherEvent,
+  KeyMaterialWatcherEvents,
+  KeyMaterialWatcherListener,
+  KeyMaterialWatcherOptions,
+  KeyValueCacheOptions,
+  KeyValueStore,
+  Logger,
+  MigrationOptions,
+  OnDemandChunk,
+  RequestDestination,
+  RequestOptions,
+  TransactionIdErrorOptions,
+  TransactionIdRequest,
+  TransactionIdVerification,
+  XFetchOptions,
 };
@@ -0,0 +1,93 @@
+/**
+ * Node.js-only helpers
+ *
+ * This module holds the features that read or write the file system, so the main
+ * entry stays free of node: imports and bundles unchanged for browsers and
+ * Cloudflare Workers. Import it from "twitter-transaction-id/node".
+ */
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { CacheAdapter, CacheEntry, isExpired, toEntry } from "./cache";
+import { GraphQLRegistryError } from "./errors";
+import { GraphQLOperations, parseGraphQLOperations, requireOperations } from "./graphql";
+
+/**
+ * Creates a cache stored in a JSON file
+ *
+ * Every write goes to a temporary file that is then renamed over the cache
+ * file, so readers never see a partially written file.
+ *
+ * @param path Path of the JSON cache file
+ * @returns File cache adapter
+ */
+function createFileCache(path: string): CacheAdapter {
+  let writes: Promise<void> = Promise.resolve();
+
+  const read = async (): Promise<Record<string, CacheEntry>> => {
+    try {
+      const entries = JSON.parse(await readFile(path, "utf8"));
+      return typeof entries === "object" && entries !== null ? entries : {};
+    } catch {
+      // A missing or corrupt file is a miss
+      return {};
+    }
+  };
+
+  // Serialize read-modify-write cycles within this process
+  const update = (change: (entries: Record<string, CacheEntry>) => void) => {
+    const write = writes.then(async () => {
+      const entries = await read();
+      change(entries);
+      for (const [key, entry] of Object.entries(entries)) {
+        if (isExpired(entry)) {
+          delete entries[key];
+        }
+      }
+      await mkdir(dirname(path), { recursive: true });
+      const tempPath = `${path}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+      await writeFile(tempPath, JSON.stringify(entries));
+      await rename(tempPath, path);
+    });
+    writes = write.catch(() => {});
+    return write;
+  };
+
+  return {
+    async get(key) {
+      const entry = (await read())[key];
+      if (!entry || typeof entry.value !== "string" || isExpired(entry)) {
+        return null;
+      }
+      return entry.value;
+    },
+    set(key, value, ttl) {
+      return update((entries) => {
+        entries[key] = toEntry(value, ttl);
+      });
+    },
+    delete(key) {
+      return update((entries) => {
+        delete entries[key];
+      });
+    },
+  };
+}
+
+/**
+ * Reads a saved main bundle from disk and parses its operations
+ * @param path Path of the saved main bundle
+ * @returns Operations keyed by operation name
+ */
+async function loadGraphQLOperations(path: string): Promise<GraphQLOperations> {
+  let source: string;
+  try {
+    source = await readFile(path, "utf8");
+  } catch (error) {
+    throw new GraphQLRegistryError(`Failed to read main bundle from ${path}`, {
+      cause: error,
+    });
+  }
+  return requireOperations(parseGraphQLOperations(source), path);
+}
+
+export { createFileCache, loadGraphQLOperations };
@@ -0,0 +1,811 @@
+/**
+ * Offline tests for the networked features
+ *
+ * Every request goes to a stub fetch that serves the fixtures in fixtures/
+ * and records what was asked, so these tests never reach x.com. The state
+ * those features keep, cookies and cached key material, is checked here too.
+ *
+ * Run with: pnpm test:offline
+ */
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ClientTransaction,
+  CookieJar,
+  create,
+  createFromSources,
+  createKeyValueCache,
+  createMemoryCache,
+  createXFetch,
+  decodeTransactionId,
+  exportSnapshot,
+  fetchHomePage,
+  fromSnapshot,
+  GuestSessionManager,
+  GuestTokenError,
+  isGuestTokenExhausted,
+  KeyMaterialWatcher,
+  loadWebCrypto,
+  MigrationError,
+  OnDemandFetchError,
+  secureRandomByte,
+  validateSnapshot,
+} from "./index";
+import type { CacheAdapter, KeyMaterialField, KeyMaterialWatcherEvent } from "./index";
+import { performXMigration } from "./dom";
+import { createFileCache } from "./node";
+
+const FIXTURES_URL = new URL("../fixtures/", import.meta.url);
+const ONDEMAND_URL = "https://abs.twimg.com/responsive-web/client-web/ondemand.s.e9d3b6ca.js";
+const ACTIVATE_URL = "https://api.x.com/1.1/guest/activate.json";
+const HOMEPAGE_GUEST_TOKEN = "1925389182762672128";
+const API_URL = "https://api.x.com/graphql/1VOOyvKkiI3FMmkeDNxM9A/UserByScreenName";
+
+/**
+ * Request received by the stub fetch
+ */
+interface StubRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+  body: string;
+  redirect: RequestRedirect;
+}
+
+/**
+ * Response of a stub route: a Response, or a function producing one
+ */
+type StubRoute = Response | ((request: StubRequest) => Response | Promise<Response>);
+
+/**
+ * Simple assertion function replacing an external assertion library
+ */
+function assertEquals(actual: any, expected: any, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(message || `Assertion failed: expected ${expected}, got ${actual}`);
+  }
+}
+
+/**
+ * Reads a fixture file
+ */
+function readFixture(name: string): Promise<string> {
+  return readFile(new URL(name, FIXTURES_URL), "utf8");
+}
+
+/**
+ * Creates a fetch that answers from a table of routes keyed by "METHOD url"
+ *
+ * Routes are matched on the URL without its query string. Unknown routes
+ * answer 599 so a test fails on the assertion that follows.
+ */
+function createStubFetch(routes: Record<string, StubRoute>) {
+  const requests: StubRequest[] = [];
+  const stubFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const url = request.url.split("?")[0];
+    const received: StubRequest = {
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: await request.text(),
+      redirect: request.redirect,
+    };
+    requests.push(received);
+    const route = routes[`${request.method} ${url}`];
+    if (!route) {
+      return new Response(`No route for ${request.method} ${url}`, { status: 599 });
+    }
+    return typeof route === "function" ? route(received) : route.clone();
+  };
+  return { fetch: stubFetch as typeof fetch, requests };
+}
+
+async function testXFetch(homePage: string, onDemandJs: string) {
+  const material = createFromSources(homePage, onDemandJs);
+
+  // Requests to other hosts reach fetch as they were given, body included
+  const passthrough = createStubFetch({
+    "POST https://example.com/upload": new Response("ok"),
+  });
+  const passthroughFetch = createXFetch({
+    client: new ClientTransaction({ material }),
+    fetch: passthrough.fetch,
+  });
+  const upload = new Request("https://example.com/upload", { method: "POST", body: "payload" });
+  assertEquals(await (await passthroughFetch(upload)).text(), "ok", "pass-through response");
+  assertEquals(passthrough.requests[0].body, "payload", "pass-through body");
+  assertEquals(passthrough.requests[0].headers.has("x-client-transaction-id"), false, "pass-through is not signed");
+
+  // A 404 is retried once with refreshed key material, after releasing the first body
+  let cancelled = false;
+  let attempts = 0;
+  const api = createStubFetch({
+    [`GET ${ONDEMAND_URL}`]: new Response(onDemandJs),
+    [`GET ${API_URL}`]: () => {
+      attempts++;
+      if (attempts > 1) {
+        return new Response("{}");
+      }
+      const body = new ReadableStream({
+        cancel() {
+          cancelled = true;
+        },
+      });
+      return new Response(body, { status: 404 });
+    },
+  });
+  const retryFetch = createXFetch({
+    material,
+    loadDocument: async () => homePage,
+    request: { fetch: api.fetch },
+    fetch: api.fetch,
+    retryOnNotFound: true,
+  });
+  const response = await retryFetch(`${API_URL}?variables=%7B%7D`);
+  assertEquals(response.status, 200, "retried response status");
+  assertEquals(attempts, 2, "API attempts");
+  assertEquals(cancelled, true, "first 404 body cancelled");
+  const signed = api.requests.filter((request) => request.url.startsWith(API_URL));
+  assertEquals(signed.every((request) => request.headers.has("x-client-transaction-id")), true, "API requests are signed");
+
+  // The global fetch is looked up per request, not when the wrapper is created
+  const globalFetch = globalThis.fetch;
+  try {
+    delete (globalThis as { fetch?: typeof fetch }).fetch;
+    const lazyFetch = createXFetch({ client: new ClientTransaction({ material }) });
+    let message = "";
+    try {
+      await lazyFetch(API_URL);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    assertEquals(message, "fetch is not available: pass a fetch implementation in the options", "missing fetch error");
+  } finally {
+    globalThis.fetch = globalFetch;
+  }
+  console.log("createXFetch passes through, signs, retries and resolves fetch lazily");
+}
+
+async function testClockOffsetRestore(homePage: string, onDemandJs: string) {
+  // The ondemand file's server is two minutes ahead of the local clock
+  const ahead = 120_000;
+  const { fetch } = createStubFetch({
+    [`GET ${ONDEMAND_URL}`]: () =>
+      new Response(onDemandJs, {
+        headers: { date: new Date(Date.now() + ahead).toUTCString() },
+      }),
+  });
+  const cache = createMemoryCache();
+  const first = new ClientTransaction({
+    cache,
+    loadDocument: async () => homePage,
+    request: { fetch },
+  });
+  await first.getKeyMaterial();
+  const measured = first.clockOffset;
+  assertEquals(measured !== null && Math.abs(measured - ahead) <= 2000, true, `measured offset ${measured}`);
+
+  // A second client on the same cache never fetches, and keeps the offset
+  const second = new ClientTransaction({
+    cache,
+    loadDocument: async () => {
+      throw new Error("the second client must read the cache");
+    },
+  });
+  const transactionId = await second.generateTransactionId("GET", "/1.1/jot/client_event.json");
+  assertEquals(second.clockOffset, measured, "cache-restored offset");
+  const { timestamp } = decodeTransactionId(transactionId);
+  assertEquals(Math.abs(timestamp - (Date.now() + ahead)) <= 2000, true, `cache-restored timestamp ${timestamp}`);
+
+  // Snapshots carry the offset as well
+  const restored = fromSnapshot(JSON.parse(JSON.stringify(exportSnapshot(first.peek()!))));
+  assertEquals(restored.clockOffset, measured, "snapshot-restored offset");
+  console.log("Cache and snapshot restores keep the measured clock offset");
+}
+
+function testSnapshotValidation(homePage: string, onDemandJs: string) {
+  const valid = JSON.parse(JSON.stringify(exportSnapshot(createFromSources(homePage, onDemandJs))));
+  assertEquals(fromSnapshot(valid).peek()!.key, valid.key, "valid snapshot restores");
+
+  const { sourceUrl, ...withoutSource } = valid;
+  const cases: { note: string; value: unknown; message: string }[] = [
+    { note: "not an object", value: "snapshot", message: "Invalid snapshot: expected an object" },
+    { note: "null", value: null, message: "Invalid snapshot: expected an object" },
+    { note: "wrong version", value: { ...valid, version: 2 }, message: "Unsupported snapshot version: 2" },
+    { note: "missing version", value: { ...valid, version: undefined }, message: "Unsupported snapshot version: undefined" },
+    { note: "missing key", value: { ...valid, key: undefined }, message: "Invalid snapshot: key must be a non-empty string" },
+    { note: "empty animation key", value: { ...valid, animationKey: "" }, message: "Invalid snapshot: animationKey must be a non-empty string" },
+    { note: "missing source URL", value: withoutSource, message: "Invalid snapshot: sourceUrl must be a non-empty string" },
+    { note: "malformed key", value: { ...valid, key: "not base64!" }, message: "Invalid snapshot: key must be base64 encoded" },
+    { note: "numeric ondemand hash", value: { ...valid, onDemandHash: 7 }, message: "Invalid snapshot: onDemandHash must be a string" },
+    { note: "negative row index", value: { ...valid, rowIndex: -1 }, message: "Invalid snapshot: rowIndex must be a non-negative integer" },
+    { note: "fractional row index", value: { ...valid, rowIndex: 1.5 }, message: "Invalid snapshot: rowIndex must be a non-negative integer" },
+    { note: "empty indices", value: { ...valid, keyByteIndices: [] }, message: "Invalid snapshot: keyByteIndices must be a non-empty array of non-negative integers" },
+    { note: "string indices", value: { ...valid, keyByteIndices: ["5", "9"] }, message: "Invalid snapshot: keyByteIndices must be a non-empty array of non-negative integers" },
+    { note: "indices not an array", value: { ...valid, keyByteIndices: "5,9,13" }, message: "Invalid snapshot: keyByteIndices must be a non-empty array of non-negative integers" },
+    { note: "unparseable capture time", value: { ...valid, capturedAt: "yesterday" }, message: "Invalid snapshot: capturedAt must be an ISO 8601 date" },
+    { note: "missing capture time", value: { ...valid, capturedAt: undefined }, message: "Invalid snapshot: capturedAt must be an ISO 8601 date" },
+    { note: "infinite clock offset", value: { ...valid, clockOffset: Infinity }, message: "Invalid snapshot: clockOffset must be a finite number" },
+  ];
+  for (const { note, value, message } of cases) {
+    for (const [name, load] of [
+      ["validateSnapshot", validateSnapshot],
+      ["fromSnapshot", fromSnapshot],
+    ] as const) {
+      let error: unknown = null;
+      try {
+        load(value);
+      } catch (thrown) {
+        error = thrown;
+      }
+      assertEquals((error as Error | null)?.message, message, `${name} ${note}`);
+    }
+  }
+  console.log(`validateSnapshot and fromSnapshot reject ${cases.length} malformed snapshots`);
+}
+
+async function testMigrationFormAtStart(homePage: string) {
+  // A bare migration page whose form is its very first tag
+  const migrationPage =
+    '<form action="https://x.com/x/migrate" method="post"><input type="hidden" name="tok" value="abc123"></form>';
+  const { fetch, requests } = createStubFetch({
+    "GET https://x.com/": new Response(migrationPage),
+    "POST https://x.com/x/migrate": new Response(homePage),
+  });
+  const result = await fetchHomePage({ fetch });
+  assertEquals(requests.length, 2, "form submitted");
+  assertEquals(requests[1].body, "tok=abc123", "form payload");
+  assertEquals(result.html, homePage, "homepage after the form");
+  console.log("A migration form at the start of the page is submitted");
+}
+
+function testCookieJar() {
+  const now = Date.now();
+  const jar = new CookieJar();
+  jar.setCookie("guest_id=v1%3A1; Domain=.x.com; Path=/; Secure", "https://x.com/", now);
+  jar.setCookie("ct0=abc; Path=/", "https://x.com/i/flow", now);
+  jar.setCookie("lang=en", "https://x.com/i/flow/login", now);
+  jar.setCookie("foreign=1; Domain=twitter.com", "https://x.com/", now);
+  jar.setCookie("short=1; Max-Age=60; Expires=Wed, 01 Jan 2100 00:00:00 GMT", "https://x.com/", now);
+
+  assertEquals(jar.getCookieHeader("https://x.com/home"), "guest_id=v1%3A1; ct0=abc; short=1", "cookies for x.com");
+  assertEquals(jar.getCookieHeader("https://api.x.com/graphql"), "guest_id=v1%3A1", "domain cookies reach subdomains");
+  assertEquals(jar.getCookieHeader("http://x.com/home"), "ct0=abc; short=1", "secure cookies need https");
+  assertEquals(jar.getCookieHeader("https://x.com/i/flow/signup"), "lang=en; guest_id=v1%3A1; ct0=abc; short=1", "longest path first");
+  assertEquals(jar.get("foreign", "https://twitter.com/"), null, "cookies for other domains are ignored");
+  const later = jar.getCookies("https://x.com/", now + 61_000).map((cookie) => cookie.name);
+  assertEquals(later.includes("short"), false, "Max-Age takes precedence over Expires");
+
+  jar.setCookie("ct0=; Max-Age=0; Path=/", "https://x.com/", now);
+  assertEquals(jar.get("ct0", "https://x.com/"), null, "Max-Age=0 removes the cookie");
+  const restored = new CookieJar(jar.toJSON());
+  assertEquals(restored.getCookieHeader("https://x.com/i/flow/x"), jar.getCookieHeader("https://x.com/i/flow/x"), "toJSON round trip");
+
+  // Runtimes without Headers.getSetCookie combine the headers into one
+  const combined = new CookieJar();
+  const headers = {
+    get: () => "a=1; Expires=Wed, 01 Jan 2100 00:00:00 GMT; Path=/, b=2; Path=/",
+  };
+  combined.storeResponse({ headers } as unknown as Response, "https://x.com/");
+  assertEquals(combined.getCookieHeader("https://x.com/"), "a=1; b=2", "combined Set-Cookie header");
+  console.log("CookieJar scopes cookies by domain, path, security and expiry");
+}
+
+async function testMigration(homePage: string) {
+  const migrateUrl = "https://x.com/x/migrate";
+  const { fetch, requests } = createStubFetch({
+    "GET https://x.com/": new Response(
+      '<meta http-equiv="refresh" content="0; url = https://twitter.com/x/migrate?tok=abc">',
+      { headers: { "set-cookie": "guest_id=v1%3A1; Domain=x.com; Path=/; Secure" } }
+    ),
+    "GET https://twitter.com/x/migrate": new Response(null, {
+      status: 302,
+      headers: { location: `${migrateUrl}?tok=abc`, "set-cookie": "twitter_sess=1; Domain=twitter.com; Path=/" },
+    }),
+    [`GET ${migrateUrl}`]: new Response(
+      `<form name="f" action="${migrateUrl}" method="post"><input type="hidden" name="tok" value="abc"><input type="hidden" name="data" value="xyz"></form>`
+    ),
+    [`POST ${migrateUrl}`]: new Response(null, {
+      status: 303,
+      headers: { location: "/home", "set-cookie": "ct0=csrf; Path=/; Secure" },
+    }),
+    "GET https://x.com/home": new Response(homePage),
+  });
+
+  const result = await performXMigration({ fetch });
+  assertEquals(
+    result.redirectChain.join(" "),
+    [
+      "https://x.com",
+      "https://twitter.com/x/migrate?tok=abc",
+      `${migrateUrl}?tok=abc`,
+      migrateUrl,
+      "https://x.com/home",
+    ].join(" "),
+    "redirect chain"
+  );
+  assertEquals(result.finalUrl, "https://x.com/home", "final URL");
+  assertEquals(requests.map((request) => request.method).join(","), "GET,GET,GET,POST,GET", "methods");
+  assertEquals(requests[1].headers.get("cookie"), null, "x.com cookies stay on x.com");
+  assertEquals(requests[2].headers.get("cookie"), "guest_id=v1%3A1", "cookies carried across hops");
+  assertEquals(requests[3].body, "tok=abc&data=xyz", "form payload");
+  assertEquals(requests[4].headers.get("cookie"), "guest_id=v1%3A1; ct0=csrf", "cookies set by a redirect");
+  assertEquals(requests[4].body, "", "303 turns the POST into a GET");
+  assertEquals(result.guestToken, "1925389182762672128", "guest token set by document.cookie");
+  assertEquals(result.cookies.get("gt", "https://x.com/"), result.guestToken, "guest token cookie");
+  assertEquals(result.document.querySelector("[name='twitter-site-verification']") !== null, true, "final document");
+
+  // A redirect loop stops with a MigrationError
+  const loop = createStubFetch({
+    "GET https://x.com/": new Response(null, { status: 302, headers: { location: "https://x.com/" } }),
+  });
+  let error: unknown = null;
+  try {
+    await performXMigration({ fetch: loop.fetch });
+  } catch (caught) {
+    error = caught;
+  }
+  assertEquals(error instanceof MigrationError, true, "redirect loop error");
+  assertEquals((error as MigrationError).message, "Failed to fetch X homepage: too many redirects", "redirect loop message");
+  assertEquals((error as MigrationError).stage, "migration", "redirect loop stage");
+  console.log("Migration follows redirects hop by hop and carries cookies");
+}
+
+async function testMigrationRedirects(homePage: string) {
+  // Redirect bodies are cancelled before the redirect is followed
+  let cancelled = false;
+  const redirect = createStubFetch({
+    "GET https://x.com/": () =>
+      new Response(new ReadableStream({ cancel: () => void (cancelled = true) }), {
+        status: 302,
+        headers: { location: "/home" },
+      }),
+    "GET https://x.com/home": new Response(homePage),
+  });
+  await fetchHomePage({ fetch: redirect.fetch });
+  assertEquals(cancelled, true, "redirect body cancelled");
+
+  // Browsers answer manual redirects with an opaque response and hide the target
+  const opaqueRedirect = () =>
+    Object.defineProperty(new Response(null), "type", { value: "opaqueredirect" });
+  const followed = (body: string, url: string) =>
+    Object.defineProperty(new Response(body), "url", { value: url });
+  const migrationForm =
+    '<form action="https://x.com/x/migrate" method="post"><input type="hidden" name="tok" value="abc"></form>';
+
+  // A hidden GET redirect is sent again with redirects followed, and so is every later request
+  const browser = createStubFetch({
+    "GET https://x.com/": (request) =>
+      request.redirect === "manual" ? opaqueRedirect() : followed(migrationForm, "https://x.com/x/migrate"),
+    "POST https://x.com/x/migrate": (request) =>
+      request.redirect === "manual" ? opaqueRedirect() : followed(homePage, "https://x.com/home"),
+  });
+  const result = await fetchHomePage({ fetch: browser.fetch });
+  assertEquals(
+    browser.requests.map((request) => `${request.method} ${request.redirect}`).join(","),
+    "GET manual,GET follow,POST follow",
+    "hidden redirects followed by fetch"
+  );
+  assertEquals(result.finalUrl, "https://x.com/home", "final URL after hidden redirects");
+  assertEquals(result.html, homePage, "homepage after hidden redirects");
+
+  // A hidden redirect of the form POST is never replayed
+  const post = createStubFetch({
+    "GET https://x.com/": new Response(migrationForm),
+    "POST https://x.com/x/migrate": () => opaqueRedirect(),
+  });
+  let error: unknown = null;
+  try {
+    await fetchHomePage({ fetch: post.fetch });
+  } catch (caught) {
+    error = caught;
+  }
+  assertEquals(error instanceof MigrationError, true, "hidden POST redirect error");
+  assertEquals(post.requests.filter((request) => request.method === "POST").length, 1, "form posted once");
+  console.log("Migration releases redirect bodies and never replays a hidden POST redirect");
+}
+
+async function testGuestSession(homePage: string, onDemandJs: string) {
+  let activations = 0;
+  let activateStatus = 200;
+  const { fetch, requests } = createStubFetch({
+    "GET https://x.com/": new Response(homePage),
+    [`GET ${ONDEMAND_URL}`]: new Response(onDemandJs),
+    [`POST ${ACTIVATE_URL}`]: () =>
+      activateStatus === 200
+        ? Response.json({ guest_token: `100${++activations}` })
+        : new Response("", { status: activateStatus, statusText: "Service Unavailable" }),
+  });
+  const countRequests = (prefix: string) => requests.filter((request) => request.url.startsWith(prefix)).length;
+
+  // Concurrent callers share one homepage visit and one activation
+  const manager = new GuestSessionManager({ request: { fetch } });
+  const [session, other] = await Promise.all([manager.getSession(), manager.getSession()]);
+  assertEquals(session, other, "shared session");
+  assertEquals(session.guestToken, "1001", "activated guest token");
+  assertEquals(countRequests("https://x.com/"), 1, "homepage visits");
+  assertEquals(activations, 1, "activations");
+  assertEquals(session.material.animationKey, createFromSources(homePage, onDemandJs).animationKey, "session key material");
+  const activation = requests.find((request) => request.url === ACTIVATE_URL)!;
+  assertEquals(activation.headers.get("authorization")?.startsWith("Bearer AAAA"), true, "activation bearer token");
+  assertEquals(activation.headers.get("cookie"), `gt=${HOMEPAGE_GUEST_TOKEN}`, "activation carries the homepage cookies");
+  assertEquals(session.cookies.get("gt", "https://api.x.com/"), "1001", "gt cookie follows the activated token");
+
+  const headers = await manager.getHeaders("GET", API_URL);
+  assertEquals(headers["x-guest-token"], "1001", "guest token header");
+  assertEquals(headers.cookie, "gt=1001", "cookie header");
+  const keyBytes = decodeTransactionId(headers["x-client-transaction-id"]).keyBytes;
+  assertEquals(Buffer.from(keyBytes).toString("base64"), session.material.key, "transaction ID key");
+
+  // Exhausted tokens are recognised from the status or the X error code
+  const exhausted = [
+    [new Response("", { status: 429 }), true],
+    [Response.json({ errors: [{ code: 239 }] }, { status: 403 }), true],
+    [Response.json({ errors: [{ code: 88 }] }, { status: 400 }), true],
+    [Response.json({ errors: [{ code: 200 }] }, { status: 403 }), false],
+    [new Response("not json", { status: 403 }), false],
+    [Response.json({}), false],
+  ] as const;
+  for (const [response, expected] of exhausted) {
+    assertEquals(await isGuestTokenExhausted(response), expected, `exhausted ${response.status}`);
+  }
+
+  // Rotation replaces only the guest token
+  assertEquals(await manager.handleResponse(Response.json({ errors: [{ code: 200 }] }, { status: 403 })), false, "no rotation");
+  assertEquals(await manager.handleResponse(new Response("", { status: 429 })), true, "rotation");
+  const rotated = manager.peek()!;
+  assertEquals(rotated.guestToken, "1002", "rotated guest token");
+  assertEquals(rotated.material, session.material, "rotation keeps the key material");
+  assertEquals(rotated.cookies, session.cookies, "rotation keeps the cookies");
+  assertEquals(rotated.cookies.get("gt", "https://x.com/"), "1002", "rotated gt cookie");
+  assertEquals(countRequests("https://x.com/"), 1, "rotation does not revisit the homepage");
+  assertEquals(requests.filter((request) => request.url === ACTIVATE_URL).pop()!.headers.get("cookie"), "gt=1001", "rotation sends the session cookies");
+
+  // Without activation, a new session falls back to the homepage token, and rotating fails
+  activateStatus = 503;
+  const fallback = new GuestSessionManager({ request: { fetch } });
+  assertEquals((await fallback.getSession()).guestToken, HOMEPAGE_GUEST_TOKEN, "homepage guest token");
+  let error: unknown = null;
+  try {
+    await fallback.rotate();
+  } catch (caught) {
+    error = caught;
+  }
+  assertEquals(error instanceof GuestTokenError, true, "rotation error");
+  assertEquals((error as GuestTokenError).status, 503, "rotation error status");
+  assertEquals((error as GuestTokenError).stage, "guest", "rotation error stage");
+  assertEquals(fallback.peek()?.guestToken, HOMEPAGE_GUEST_TOKEN, "failed rotation keeps the session");
+  console.log("GuestSessionManager activates, shares and rotates guest tokens");
+}
+
+/**
+ * Checks the behaviour every cache adapter shares
+ */
+async function checkCacheAdapter(name: string, cache: CacheAdapter) {
+  assertEquals(await cache.get("missing"), null, `${name}: miss`);
+  await cache.set("kept", "value", Infinity);
+  await cache.set("short", "value", 1);
+  await cache.set("deleted", "value", 60_000);
+  await cache.delete("deleted");
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assertEquals(await cache.get("kept"), "value", `${name}: stored value`);
+  assertEquals(await cache.get("short"), null, `${name}: expired value`);
+  assertEquals(await cache.get("deleted"), null, `${name}: deleted value`);
+  await cache.set("kept", "replaced", 60_000);
+  assertEquals(await cache.get("kept"), "replaced", `${name}: replaced value`);
+}
+
+async function testCacheAdapters() {
+  await checkCacheAdapter("memory", createMemoryCache());
+
+  // Workers KV: expirationTtl in seconds, at least 60
+  const kv = new Map<string, string>();
+  const puts: unknown[] = [];
+  const workersKv = {
+    get: async (key: string) => kv.get(key) ?? null,
+    put: async (key: string, value: string, options?: unknown) => {
+      puts.push(options);
+      kv.set(key, value);
+    },
+    delete: async (key: string) => kv.delete(key),
+  };
+  await checkCacheAdapter("Workers KV", createKeyValueCache(workersKv, { prefix: "tx:" }));
+  assertEquals([...kv.keys()].every((key) => key.startsWith("tx:")), true, "Workers KV: key prefix");
+  assertEquals(JSON.stringify(puts.slice(0, 2)), '[{},{"expirationTtl":60}]', "Workers KV: expiration TTL");
+  kv.set("tx:corrupt", "{not json");
+  assertEquals(await createKeyValueCache(workersKv, { prefix: "tx:" }).get("corrupt"), null, "Workers KV: corrupt entry");
+
+  // Redis: PX in milliseconds, del instead of delete
+  const redis = new Map<string, string>();
+  const sets: unknown[] = [];
+  const redisStore = {
+    get: async (key: string) => redis.get(key) ?? null,
+    set: async (key: string, value: string, options?: unknown) => {
+      sets.push(options);
+      redis.set(key, value);
+    },
+    del: async (key: string) => redis.delete(key),
+  };
+  await checkCacheAdapter("Redis", createKeyValueCache(redisStore));
+  assertEquals(JSON.stringify(sets.slice(0, 3)), '[{},{"PX":1},{"PX":60000}]', "Redis: PX");
+  assertEquals(redis.has("deleted"), false, "Redis: del");
+
+  let message = "";
+  try {
+    createKeyValueCache({ get: async () => null });
+  } catch (error) {
+    message = (error as Error).message;
+  }
+  assertEquals(message, "Key-value store must have a put or set method", "store without put or set");
+
+  // JSON file: atomic writes, serialized within a process, shared between adapters
+  const directory = await mkdtemp(join(tmpdir(), "twitter-transaction-id-"));
+  try {
+    const path = join(directory, "nested", "cache.json");
+    const fileCache = createFileCache(path);
+    await checkCacheAdapter("file", fileCache);
+    await Promise.all(["a", "b", "c"].map((key) => fileCache.set(key, key, 60_000)));
+    const reader = createFileCache(path);
+    assertEquals([await reader.get("a"), await reader.get("b"), await reader.get("c")].join(), "a,b,c", "file: concurrent writes");
+    assertEquals(Object.keys(JSON.parse(await readFile(path, "utf8"))).includes("short"), false, "file: expired entries pruned");
+    assertEquals((await readdir(join(directory, "nested"))).join(), "cache.json", "file: no temporary files left");
+
+    await writeFile(path, "{not json");
+    assertEquals(await reader.get("a"), null, "file: corrupt file is a miss");
+    await reader.set("a", "recovered", 60_000);
+    assertEquals(await fileCache.get("a"), "recovered", "file: corrupt file is replaced");
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+  console.log("Memory, key-value and file caches store, expire and delete values");
+}
+
+/**
+ * Awaits a promise expected to reject and measures how long that took
+ */
+async function timeRejection(promise: Promise<unknown>) {
+  const start = Date.now();
+  try {
+    await promise;
+  } catch (error) {
+    return { error, elapsed: Date.now() - start };
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+async function testStalledBody(homePage: string) {
+  // A server that sends its headers and part of the body, then stalls
+  const server = createServer((req, res) => {
+    res.writeHead(200, { "content-type": "text/html" });
+    res.write("<html>");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const migration = await timeRejection(fetchHomePage({ baseUrl: url, timeout: 300 }));
+    assertEquals(migration.error instanceof MigrationError, true, "stalled homepage error");
+    assertEquals(migration.elapsed < 2000, true, `stalled homepage timed out after ${migration.elapsed}ms`);
+
+    const onDemand = await timeRejection(create(homePage, { assetsBaseUrl: url, timeout: 300 }));
+    assertEquals(onDemand.error instanceof OnDemandFetchError, true, "stalled ondemand file error");
+    assertEquals(onDemand.elapsed < 2000, true, `stalled ondemand file timed out after ${onDemand.elapsed}ms`);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("cancelled")), 300);
+    const aborted = await timeRejection(fetchHomePage({ baseUrl: url, signal: controller.signal }));
+    assertEquals(((aborted.error as MigrationError).cause as Error).message, "cancelled", "stalled homepage abort reason");
+    assertEquals(aborted.elapsed < 2000, true, `stalled homepage aborted after ${aborted.elapsed}ms`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  // The read is bounded even when the fetch implementation ignores the signal
+  const { fetch } = createStubFetch({
+    "GET https://x.com/": () => new Response(new ReadableStream({ pull: () => new Promise(() => {}) })),
+  });
+  const stub = await timeRejection(fetchHomePage({ fetch, timeout: 300 }));
+  assertEquals(stub.error instanceof MigrationError, true, "stalled stub body error");
+  assertEquals(stub.elapsed < 2000, true, `stalled stub body timed out after ${stub.elapsed}ms`);
+  console.log("Timeouts and signals bound the response body, not just the headers");
+}
+
+async function testClientTransaction(homePage: string, onDemandJs: string) {
+  // Homepage loads wait for release() while a gate is set
+  let gate: Promise<void> | null = null;
+  let release = () => {};
+  const hold = () => {
+    gate = new Promise((resolve) => {
+      release = () => {
+        gate = null;
+        resolve();
+      };
+    });
+  };
+  const { fetch, requests } = createStubFetch({
+    "GET https://x.com/": new Response(null, { status: 302, headers: { location: "/home" } }),
+    "GET https://x.com/home": async () => {
+      await gate;
+      return new Response(homePage);
+    },
+    [`GET ${ONDEMAND_URL}`]: new Response(onDemandJs),
+  });
+  const homePageLoads = () =>
+    requests.filter(({ url }) => url === "https://x.com/home").length;
+  const request = { fetch };
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // Concurrent callers share one load, and the cache records the page reached
+  const cache = createMemoryCache();
+  const client = new ClientTransaction({ request, ttl: 100, cache });
+  const shared = await Promise.all([1, 2, 3].map(() => client.getKeyMaterial()));
+  assertEquals(homePageLoads(), 1, "concurrent callers share one load");
+  assertEquals(shared.every((material) => material === shared[0]), true, "concurrent callers get the same material");
+  const cached = JSON.parse((await cache.get("twitter-transaction-id:key-material"))!);
+  assertEquals(cached.sourceUrl, "https://x.com/home", "cached source URL");
+
+  // Fresh material is reused until the TTL expires
+  assertEquals(await client.getKeyMaterial(), shared[0], "fresh material reused");
+  assertEquals(homePageLoads(), 1, "no load while fresh");
+  await sleep(120);
+  assertEquals(client.isFresh, false, "expired after the TTL");
+  await cache.delete("twitter-transaction-id:key-material");
+  const renewed = await Promise.all([client.getKeyMaterial(), client.getKeyMaterial()]);
+  assertEquals(homePageLoads(), 2, "expired material is loaded again, once");
+  assertEquals(renewed[0] === shared[0], false, "expired material replaced");
+  assertEquals(renewed[1], renewed[0], "callers after expiry share the load");
+
+  // With staleWhileRefresh, expired material is returned while one background refresh runs
+  const stale = new ClientTransaction({ request, ttl: 50, staleWhileRefresh: true });
+  const initial = await stale.getKeyMaterial();
+  await sleep(70);
+  hold();
+  assertEquals(await stale.getKeyMaterial(), initial, "expired material returned");
+  assertEquals(await stale.getKeyMaterial(), initial, "expired material returned during the refresh");
+  await sleep(10);
+  assertEquals(homePageLoads(), 4, "one background refresh");
+  assertEquals(stale.peek(), initial, "material kept until the refresh completes");
+  release();
+  await stale.refresh();
+  assertEquals(homePageLoads(), 4, "refresh shared with the background refresh");
+  assertEquals(stale.peek() === initial, false, "background refresh replaces the material");
+  assertEquals(stale.isFresh, true, "fresh after the background refresh");
+  console.log("ClientTransaction shares loads, expires material and refreshes in the background");
+}
+
+async function testKeyMaterialWatcher(homePage: string, onDemandJs: string) {
+  // Each check fetches whatever the stub serves at that moment
+  let page = homePage;
+  let script = onDemandJs;
+  let onDemandStatus = 200;
+  const { fetch } = createStubFetch({
+    "GET https://x.com/": () => new Response(page),
+    [`GET ${ONDEMAND_URL}`]: () => new Response(script, { status: onDemandStatus }),
+  });
+  const watcher = new KeyMaterialWatcher({ request: { fetch } });
+  const events: { event: KeyMaterialWatcherEvent; data: any }[] = [];
+  const names: KeyMaterialWatcherEvent[] = [
+    "checked",
+    "changed",
+    "keyRotated",
+    "animationKeyChanged",
+    "indicesChanged",
+    "onDemandChanged",
+    "extractionFailed",
+  ];
+  const removers = names.map((event) => watcher.on(event, (data) => events.push({ event, data })));
+  const take = () => events.splice(0).map(({ event }) => event).join(",");
+
+  // The first check has nothing to compare with
+  const first = await watcher.check();
+  assertEquals(watcher.current, first, "first material kept");
+  assertEquals(take(), "checked", "first check events");
+
+  // Unchanged material emits only "checked"
+  await watcher.check();
+  assertEquals(take(), "checked", "unchanged check events");
+
+  // A rotated verification key emits keyRotated, then changed
+  page = homePage.replace("Xr9wIdIb", "Yr9wIdIb");
+  await watcher.check();
+  const rotated = events.find(({ event }) => event === "keyRotated")!;
+  assertEquals(rotated.data.before, first!.key, "keyRotated before");
+  assertEquals(rotated.data.after, watcher.current!.key, "keyRotated after");
+  const changed = events.find(({ event }) => event === "changed")!;
+  assertEquals(changed.data.fields.includes("key" as KeyMaterialField), true, "changed lists the key");
+  assertEquals(events[events.length - 1].event, "changed", "changed is emitted last");
+  events.splice(0);
+
+  // New key byte indices in the ondemand file emit indicesChanged
+  script = onDemandJs.replace("t[9]", "t[7]");
+  await watcher.check();
+  const indices = events.find(({ event }) => event === "indicesChanged")!;
+  assertEquals(indices.data.before.keyByteIndices.join(","), "5,9,13", "indicesChanged before");
+  assertEquals(indices.data.after.keyByteIndices.join(","), "5,7,13", "indicesChanged after");
+  assertEquals(indices.data.after.rowIndex, 1, "indicesChanged row index");
+  events.splice(0);
+
+  // A failed extraction keeps the previous material
+  const previous = watcher.current;
+  onDemandStatus = 500;
+  assertEquals(await watcher.check(), null, "failed check result");
+  assertEquals(take(), "extractionFailed", "failed check events");
+  assertEquals(watcher.current, previous, "material kept after a failure");
+  onDemandStatus = 200;
+  removers.forEach((remove) => remove());
+
+  // Periodic checks start immediately, never overlap and end with stop
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const slow = createStubFetch({
+    "GET https://x.com/": async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      inFlight--;
+      return new Response(homePage);
+    },
+    [`GET ${ONDEMAND_URL}`]: new Response(onDemandJs),
+  });
+  const periodic = new KeyMaterialWatcher({ interval: 20, request: { fetch: slow.fetch } });
+  const homePageChecks = () =>
+    slow.requests.filter(({ url }) => url === "https://x.com/").length;
+  periodic.start();
+  periodic.start();
+  assertEquals(periodic.isRunning, true, "running after start");
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assertEquals(homePageChecks(), 1, "first check runs immediately, once");
+  await new Promise((resolve) => setTimeout(resolve, 345));
+  periodic.stop();
+  assertEquals(periodic.isRunning, false, "stopped");
+  const checks = homePageChecks();
+  assertEquals(maxInFlight, 1, "checks never overlap");
+  assertEquals(checks >= 2 && checks <= 5, true, `${checks} checks in 350ms with 100ms loads`);
+  await new Promise((resolve) => setTimeout(resolve, 150));
+  assertEquals(homePageChecks(), checks, "no checks after stop");
+  console.log("KeyMaterialWatcher detects changes, reports failures and polls without overlap");
+}
+
+async function testSecureRandom() {
+  // Insecure browser origins have getRandomValues but no crypto.subtle
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, "crypto")!;
+  try {
+    Object.defineProperty(globalThis, "crypto", {
+      configurable: true,
+      value: { getRandomValues: (array: Uint8Array) => array.fill(7) },
+    });
+    await loadWebCrypto();
+    assertEquals(secureRandomByte(), 7, "getRandomValues without crypto.subtle");
+  } finally {
+    Object.defineProperty(globalThis, "crypto", descriptor);
+  }
+  console.log("secureRandomByte only needs crypto.getRandomValues");
+}
+
+try {
+  const [homePage, onDemandJs] = await Promise.all([
+    readFixture("home.html"),
+    readFixture("ondemand.js"),
+  ]);
+  await testXFetch(homePage, onDemandJs);
+  await testClockOffsetRestore(homePage, onDemandJs);
+  testSnapshotValidation(homePage, onDemandJs);
+  await testMigrationFormAtStart(homePage);
+  testCookieJar();
+  await testMigration(homePage);
+  await testMigrationRedirects(homePage);
+  await testGuestSession(homePage, onDemandJs);
+  await testCacheAdapters();
+  await testStalledBody(homePage);
+  await testSecureRandom();
+  await testKeyMaterialWatcher(homePage, onDemandJs);
+  await testClientTransaction(homePage, onDemandJs);
+  console.log("✅ Test passed!");
+} catch (error) {
+  console.error("❌ Test failed:", error);
+  process.exit(1);
+}
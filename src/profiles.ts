@@ -0,0 +1,207 @@
+/**
+ * Browser fingerprint profiles
+ *
+ * This module provides named browser profiles and builds coherent header
+ * sets from them, so the homepage, migration, ondemand file and API
+ * requests all look like they come from the same browser.
+ */
+
+/**
+ * Name of a built-in browser profile
+ */
+export type BrowserProfileName =
+  | "chrome"
+  | "chrome-android"
+  | "edge"
+  | "firefox"
+  | "firefox-android"
+  | "safari"
+  | "safari-ios";
+
+/**
+ * Kind of request a header set is built for
+ */
+export type RequestDestination = "document" | "script" | "api";
+
+/**
+ * Identity of a browser as seen in its request headers
+ */
+export interface BrowserProfile {
+  name: string;
+  userAgent: string;
+  /** Accept header of top-level navigations */
+  accept: string;
+  acceptLanguage: string;
+  /** Client hints, only sent by Chromium-based browsers */
+  secChUa?: string;
+  secChUaMobile?: string;
+  secChUaPlatform?: string;
+  /** Priority header of top-level navigations, if the browser sends one */
+  priority?: string;
+}
+
+const CHROMIUM_ACCEPT =
+  "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7";
+const GECKO_ACCEPT =
+  "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/png,image/svg+xml,*/*;q=0.8";
+const WEBKIT_ACCEPT =
+  "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8";
+
+export const BROWSER_PROFILES: Record<BrowserProfileName, BrowserProfile> = {
+  chrome: {
+    name: "chrome",
+    userAgent:
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36",
+    accept: CHROMIUM_ACCEPT,
+    acceptLanguage: "en-US",
+    secChUa: '"Google Chrome";v="135", "Not-A.Brand";v="8", "Chromium";v="135"',
+    secChUaMobile: "?0",
+    secChUaPlatform: '"Windows"',
+    priority: "u=0, i",
+  },
+  "chrome-android": {
+    name: "chrome-android",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Mobile Safari/537.36",
+    accept: CHROMIUM_ACCEPT,
+    acceptLanguage: "en-US",
+    secChUa: '"Google Chrome";v="135", "Not-A.Brand";v="8", "Chromium";v="135"',
+    secChUaMobile: "?1",
+    secChUaPlatform: '"Android"',
+    priority: "u=0, i",
+  },
+  edge: {
+    name: "edge",
+    userAgent:
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36 Edg/135.0.0.0",
+    accept: CHROMIUM_ACCEPT,
+    acceptLanguage: "en-US",
+    secChUa: '"Microsoft Edge";v="135", "Not-A.Brand";v="8", "Chromium";v="135"',
+    secChUaMobile: "?0",
+    secChUaPlatform: '"Windows"',
+    priority: "u=0, i",
+  },
+  firefox: {
+    name: "firefox",
+    userAgent:
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:137.0) Gecko/20100101 Firefox/137.0",
+    accept: GECKO_ACCEPT,
+    acceptLanguage: "en-US,en;q=0.5",
+    priority: "u=0, i",
+  },
+  "firefox-android": {
+    name: "firefox-android",
+    userAgent:
+      "Mozilla/5.0 (Android 14; Mobile; rv:137.0) Gecko/137.0 Firefox/137.0",
+    accept: GECKO_ACCEPT,
+    acceptLanguage: "en-US,en;q=0.5",
+    priority: "u=0, i",
+  },
+  safari: {
+    name: "safari",
+    userAgent:
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.4 Safari/605.1.15",
+    accept: WEBKIT_ACCEPT,
+    acceptLanguage: "en-US,en;q=0.9",
+  },
+  "safari-ios": {
+    name: "safari-ios",
+    userAgent:
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 18_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.4 Mobile/15E148 Safari/604.1",
+    accept: WEBKIT_ACCEPT,
+    acceptLanguage: "en-US,en;q=0.9",
+  },
+};
+
+export const DEFAULT_BROWSER_PROFILE: BrowserProfileName = "chrome";
+
+/**
+ * Resolves a profile name or custom profile to a profile
+ * @param profile Profile name or custom profile (defaults to Chrome on Windows)
+ * @returns Browser profile
+ */
+function getBrowserProfile(
+  profile: BrowserProfileName | BrowserProfile = DEFAULT_BROWSER_PROFILE
+): BrowserProfile {
+  if (typeof profile !== "string") {
+    return profile;
+  }
+  const builtIn = BROWSER_PROFILES[profile];
+  if (!builtIn) {
+    throw new Error(
+      `Unknown browser profile "${profile}", expected one of: ${Object.keys(BROWSER_PROFILES).join(", ")}`
+    );
+  }
+  return builtIn;
+}
+
+/**
+ * Builds the headers a browser sends for a kind of request to X
+ *
+ * Document headers match a top-level navigation to x.com, script headers
+ * a script loaded from abs.twimg.com by x.com, and API headers a fetch
+ * from x.com to its API.
+ *
+ * @param profile Profile name or custom profile
+ * @param destination Kind of request (defaults to document)
+ * @returns Headers with lowercase names
+ */
+function getProfileHeaders(
+  profile: BrowserProfileName | BrowserProfile = DEFAULT_BROWSER_PROFILE,
+  destination: RequestDestination = "document"
+): Record<string, string> {
+  const {
+    userAgent,
+    accept,
+    acceptLanguage,
+    secChUa,
+    secChUaMobile,
+    secChUaPlatform,
+    priority,
+  } = getBrowserProfile(profile);
+
+  const headers: Record<string, string> = {};
+  if (destination === "document") {
+    headers["accept"] = accept;
+  } else {
+    headers["accept"] = "*/*";
+  }
+  headers["accept-language"] = acceptLanguage;
+  if (destination === "document") {
+    headers["cache-control"] = "no-cache";
+    headers["pragma"] = "no-cache";
+    if (priority) {
+      headers["priority"] = priority;
+    }
+  } else {
+    headers["origin"] = "https://x.com";
+    headers["referer"] = "https://x.com/";
+  }
+  if (secChUa) {
+    headers["sec-ch-ua"] = secChUa;
+    headers["sec-ch-ua-mobile"] = secChUaMobile ?? "?0";
+    headers["sec-ch-ua-platform"] = secChUaPlatform ?? '""';
+  }
+
+  if (destination === "document") {
+    headers["sec-fetch-dest"] = "document";
+    headers["sec-fetch-mode"] = "navigate";
+    headers["sec-fetch-site"] = "none";
+    headers["sec-fetch-user"] = "?1";
+    headers["upgrade-insecure-requests"] = "1";
+  } else if (destination === "script") {
+    headers["sec-fetch-dest"] = "script";
+    headers["sec-fetch-mode"] = "cors";
+    headers["sec-fetch-site"] = "cross-site";
+  } else {
+    headers["sec-fetch-dest"] = "empty";
+    headers["sec-fetch-mode"] = "cors";
+    headers["sec-fetch-site"] = "same-site";
+    headers["x-twitter-active-user"] = "yes";
+    headers["x-twitter-client-language"] = acceptLanguage.split(/[-,;]/)[0];
+  }
+  headers["user-agent"] = userAgent;
+  return headers;
+}
+
+export { getBrowserProfile, getProfileHeaders };
@@ -0,0 +1,208 @@
+/**
+ * Network request helpers
+ *
+ * This module routes every request the library makes through a single
+ * function so callers can substitute fetch, rewrite hosts, add headers
+ * and bound requests with a timeout or an AbortSignal.
+ */
+import type { BrowserProfile, BrowserProfileName } from "./profiles";
+
+const X_HOST_REGEX = /^https?:\/\/(?:www\.)?(?:x|twitter)\.com(?=[/?#]|$)/i;
+const ASSETS_HOST_REGEX = /^https?:\/\/abs\.twimg\.com(?=[/?#]|$)/i;
+
+export const X_BASE_URL = "https://x.com";
+export const ASSETS_BASE_URL = "https://abs.twimg.com";
+
+/**
+ * Options applied to every network request made by the library
+ */
+export interface RequestOptions {
+  /** Fetch implementation to use (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Replaces https://x.com (and twitter.com) in every request URL */
+  baseUrl?: string;
+  /** Replaces https://abs.twimg.com in every request URL */
+  assetsBaseUrl?: string;
+  /** Browser whose headers are sent (defaults to Chrome on Windows) */
+  profile?: BrowserProfileName | BrowserProfile;
+  /** Headers added to, or overriding, the default headers */
+  headers?: Record<string, string>;
+  /** Time in milliseconds before a request, including reading its body, is aborted */
+  timeout?: number;
+  /** Signal to abort requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Rewrites x.com and abs.twimg.com URLs to the configured base URLs
+ * @param url Absolute URL to rewrite
+ * @param options Request options
+ * @returns Rewritten URL
+ */
+function resolveUrl(url: string, options: RequestOptions = {}): string {
+  if (options.baseUrl && X_HOST_REGEX.test(url)) {
+    return url.replace(X_HOST_REGEX, options.baseUrl.replace(/\/+$/, ""));
+  }
+  if (options.assetsBaseUrl && ASSETS_HOST_REGEX.test(url)) {
+    return url.replace(
+      ASSETS_HOST_REGEX,
+      options.assetsBaseUrl.replace(/\/+$/, "")
+    );
+  }
+  return url;
+}
+
+/**
+ * Merges headers into a plain object with lowercase names
+ *
+ * Plain objects keep this working on runtimes without a global Headers class.
+ *
+ * @param defaults Default headers
+ * @param overrides Headers added to, or overriding, the defaults
+ * @returns Merged headers
+ */
+function mergeHeaders(
+  defaults: HeadersInit | undefined,
+  overrides: Record<string, string> = {}
+): Record<string, string> {
+  const entries: [string, string][] = [];
+  if (Array.isArray(defaults)) {
+    entries.push(...(defaults as [string, string][]));
+  } else if (typeof (defaults as Headers | undefined)?.forEach === "function") {
+    // A Headers instance, possibly from a fetch polyfill
+    (defaults as Headers).forEach((value, name) => entries.push([name, value]));
+  } else if (defaults) {
+    entries.push(...Object.entries(defaults as Record<string, string>));
+  }
+  entries.push(...Object.entries(overrides));
+
+  const merged: Record<string, string> = {};
+  for (const [name, value] of entries) {
+    merged[name.toLowerCase()] = value;
+  }
+  return merged;
+}
+
+/**
+ * Timeout and caller signal still bounding a response whose body is unread
+ */
+interface PendingBody {
+  signal: AbortSignal;
+  release: () => void;
+}
+
+const pendingBodies = new WeakMap<Response, PendingBody>();
+
+/**
+ * Performs a request with the given options applied
+ *
+ * The timeout and signal keep bounding the response body after the headers
+ * arrive. Read the body with readText, or drop it with discardResponse,
+ * which both end those bounds.
+ *
+ * @param url Absolute URL to request
+ * @param init Request init, its headers are defaults that options.headers override
+ * @param options Request options
+ * @returns Promise resolving to the response
+ */
+async function request(
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<Response> {
+  const fetchImpl = options.fetch ?? (globalThis as { fetch?: typeof fetch }).fetch;
+  if (!fetchImpl) {
+    throw new Error("fetch is not available: pass a fetch implementation in the request options");
+  }
+
+  const headers = mergeHeaders(init.headers, options.headers);
+
+  // Combine the caller's signal with the timeout
+  const controller = new AbortController();
+  const abort = () => controller.abort(options.signal?.reason);
+  if (options.signal) {
+    if (options.signal.aborted) {
+      abort();
+    } else {
+      options.signal.addEventListener("abort", abort, { once: true });
+    }
+  }
+  const timer =
+    options.timeout !== undefined
+      ? setTimeout(
+          () => controller.abort(new Error(`Request timed out after ${options.timeout}ms: ${url}`)),
+          options.timeout
+        )
+      : undefined;
+  const release = () => {
+    if (timer !== undefined) clearTimeout(timer);
+    options.signal?.removeEventListener("abort", abort);
+  };
+
+  let response: Response;
+  try {
+    response = await fetchImpl(resolveUrl(url, options), {
+      ...init,
+      headers,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    release();
+    throw error;
+  }
+  if (response.body) {
+    pendingBodies.set(response, { signal: controller.signal, release });
+  } else {
+    release();
+  }
+  return response;
+}
+
+/**
+ * Reads a response body as text, within the timeout and signal of its request
+ *
+ * The read is abandoned when the request is aborted, even if the fetch
+ * implementation does not abort bodies itself.
+ *
+ * @param response Response returned by request
+ * @returns Response body
+ */
+async function readText(response: Response): Promise<string> {
+  const pending = pendingBodies.get(response);
+  if (!pending) {
+    return response.text();
+  }
+  pendingBodies.delete(response);
+  const { signal, release } = pending;
+  let onAbort = () => {};
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      onAbort = () => reject(signal.reason);
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener("abort", onAbort, { once: true });
+      response.text().then(resolve, reject);
+    });
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+    release();
+  }
+}
+
+/**
+ * Cancels a response body that will not be read, releasing its connection
+ * @param response Response returned by request
+ */
+async function discardResponse(response: Response): Promise<void> {
+  pendingBodies.get(response)?.release();
+  pendingBodies.delete(response);
+  try {
+    await response.body?.cancel();
+  } catch {
+    // The body was already read or errored
+  }
+}
+
+export { mergeHeaders, request, readText, discardResponse, resolveUrl };
@@ -0,0 +1,141 @@
+/**
+ * Runtime-agnostic helpers
+ *
+ * This module provides base64 handling without Node's Buffer and resolves
+ * WebCrypto from globalThis or node:crypto, so the library runs unchanged
+ * on Node.js 16+, Cloudflare Workers, Deno, Bun and browsers.
+ */
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const BASE64_LOOKUP: Record<string, number> = {};
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET[i]] = i;
+}
+// Accept the URL-safe alphabet as well
+BASE64_LOOKUP["-"] = 62;
+BASE64_LOOKUP["_"] = 63;
+
+let nodeWebCrypto: Crypto | null = null;
+
+/**
+ * Decodes a base64 string, with or without padding, to a byte array
+ * @param input Base64 encoded string
+ * @returns Decoded bytes
+ */
+function decodeBase64(input: string): Uint8Array {
+  const clean = input.replace(/[\s=]+/g, "");
+  const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of clean) {
+    const value = BASE64_LOOKUP[char];
+    if (value === undefined) {
+      throw new Error(`Invalid base64 character: ${char}`);
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return out.subarray(0, offset);
+}
+
+/**
+ * Encodes a byte array to a padded base64 string
+ * @param input Byte array to encode
+ * @returns Base64 encoded string
+ */
+function encodeBase64(input: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < input.length; i += 3) {
+    const a = input[i];
+    const b = input[i + 1];
+    const c = input[i + 2];
+    out += BASE64_ALPHABET[a >> 2];
+    out += BASE64_ALPHABET[((a & 0x03) << 4) | ((b ?? 0) >> 4)];
+    out += b === undefined ? "=" : BASE64_ALPHABET[((b & 0x0f) << 2) | ((c ?? 0) >> 6)];
+    out += c === undefined ? "=" : BASE64_ALPHABET[c & 0x3f];
+  }
+  return out;
+}
+
+/**
+ * Returns a source of random values if one is available without importing anything
+ *
+ * Only getRandomValues is required, so browsers on insecure origins, which
+ * lack crypto.subtle, still qualify.
+ *
+ * @returns Crypto with getRandomValues, or null if it has not been loaded yet
+ */
+function getRandomValuesSource(): Pick<Crypto, "getRandomValues"> | null {
+  const globalCrypto = (globalThis as { crypto?: Crypto }).crypto;
+  if (typeof globalCrypto?.getRandomValues === "function") {
+    return globalCrypto;
+  }
+  return nodeWebCrypto;
+}
+
+/**
+ * Imports node:crypto's WebCrypto once, on runtimes that have it
+ * @private
+ */
+async function importNodeWebCrypto(): Promise<void> {
+  if (nodeWebCrypto) {
+    return;
+  }
+  try {
+    const nodeCrypto = await import("node:crypto");
+    nodeWebCrypto = nodeCrypto.webcrypto as unknown as Crypto;
+  } catch {
+    // Not running on Node.js
+  }
+}
+
+/**
+ * Loads WebCrypto so that secureRandomByte can run synchronously
+ *
+ * Node.js 16 and 18 have no globalThis.crypto, and node:crypto can only be
+ * imported asynchronously there. Await this once before generating
+ * transaction IDs synchronously with secureRandomByte, for example with
+ * TransactionIdGenerator. It resolves immediately on other runtimes.
+ *
+ * @returns Promise resolving once secure random values are available
+ */
+async function loadWebCrypto(): Promise<void> {
+  if (getRandomValuesSource()) {
+    return;
+  }
+  await importNodeWebCrypto();
+  if (!getRandomValuesSource()) {
+    throw new Error(
+      "WebCrypto is not available: expected globalThis.crypto or node:crypto webcrypto"
+    );
+  }
+}
+
+/**
+ * Resolves WebCrypto from globalThis, falling back to node:crypto
+ * @returns WebCrypto implementation with crypto.subtle
+ */
+async function getWebCrypto(): Promise<Crypto> {
+  const globalCrypto = (globalThis as { crypto?: Crypto }).crypto;
+  if (globalCrypto?.subtle) {
+    return globalCrypto;
+  }
+
+  await importNodeWebCrypto();
+  if (!nodeWebCrypto?.subtle) {
+    throw new Error(
+      "WebCrypto is not available: expected globalThis.crypto.subtle or node:crypto webcrypto"
+    );
+  }
+  return nodeWebCrypto;
+}
+
+export { decodeBase64, encodeBase64, getWebCrypto, getRandomValuesSource, loadWebCrypto };
@@ -0,0 +1,258 @@
+/**
+ * HTTP sidecar serving transaction IDs
+ *
+ * This module provides a small HTTP server for processes written in other
+ * languages. Key material is kept in memory and refreshed in the
+ * background, so once warm, requests never wait on x.com.
+ *
+ * Endpoints:
+ *   GET  /transaction-id?method=GET&path=/graphql/...
+ *   GET  /keys
+ *   POST /refresh
+ *   GET  /health
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import ClientTransaction, { ClientTransactionOptions } from "./client";
+import { exportSnapshot } from "./snapshot";
+import { TransactionIdError } from "./errors";
+
+const DEFAULT_PORT = 8080;
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_REFRESH_INTERVAL = 30 * 60 * 1000;
+const DEFAULT_RETRY_DELAY = 30 * 1000;
+
+/**
+ * Options for TransactionIdServer
+ */
+export interface TransactionIdServerOptions extends ClientTransactionOptions {
+  /** Port to listen on (defaults to 8080, 0 picks a free port) */
+  port?: number;
+  /** Host to listen on (defaults to 127.0.0.1) */
+  host?: string;
+  /** Time in milliseconds between background refreshes (defaults to 30 minutes) */
+  refreshInterval?: number;
+  /** Time in milliseconds a failed cold load is reported to requests before it is retried (defaults to 30 seconds) */
+  retryDelay?: number;
+  /** Client to serve from instead of creating one from these options */
+  client?: ClientTransaction;
+}
+
+/**
+ * HTTP server that generates transaction IDs from in-memory key material
+ */
+class TransactionIdServer {
+  readonly client: ClientTransaction;
+  private server: Server;
+  private port: number;
+  private host: string;
+  private refreshInterval: number;
+  private retryDelay: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastError: unknown = null;
+  private lastFailure: { error: unknown; at: number } | null = null;
+
+  /**
+   * Creates a new TransactionIdServer instance
+   * @param options Optional server and client options
+   */
+  constructor(options: TransactionIdServerOptions = {}) {
+    const { port, host, refreshInterval, retryDelay, client, ...clientOptions } = options;
+    this.port = port ?? DEFAULT_PORT;
+    this.host = host ?? DEFAULT_HOST;
+    this.refreshInterval = refreshInterval ?? DEFAULT_REFRESH_INTERVAL;
+    this.retryDelay = retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.client =
+      client ??
+      new ClientTransaction({
+        ttl: Infinity,
+        staleWhileRefresh: true,
+        ...clientOptions,
+      });
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => this.sendError(res, error));
+    });
+  }
+
+  /**
+   * Starts listening and warms up the key material in the background
+   * @returns Address the server is listening on
+   */
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.backgroundRefresh();
+    this.timer = setInterval(() => this.backgroundRefresh(), this.refreshInterval);
+    this.timer.unref?.();
+
+    return this.server.address() as AddressInfo;
+  }
+
+  /**
+   * Stops the server and the background refresh
+   */
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Refreshes key material without blocking requests
+   * @private
+   */
+  private backgroundRefresh(): void {
+    this.refresh().catch(() => {});
+  }
+
+  /**
+   * Refreshes key material and records a failure for /health and the retry delay
+   * @private
+   */
+  private async refresh(): Promise<void> {
+    try {
+      await this.client.refresh();
+      this.lastError = null;
+      this.lastFailure = null;
+    } catch (error) {
+      this.lastError = error;
+      this.lastFailure = { error, at: Date.now() };
+      throw error;
+    }
+  }
+
+  /**
+   * Loads key material if none is loaded yet
+   *
+   * While cold, a failed load is rethrown to every request until the retry
+   * delay has passed, so a failing x.com is not fetched once per request.
+   *
+   * @private
+   */
+  private async warmUp(): Promise<void> {
+    if (this.client.peek() !== null) {
+      return;
+    }
+    if (this.lastFailure && Date.now() - this.lastFailure.at < this.retryDelay) {
+      throw this.lastFailure.error;
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Routes a request to its endpoint
+   * @param req Incoming request
+   * @param res Server response
+   * @private
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = `${req.method} ${url.pathname}`;
+
+    switch (route) {
+      case "GET /transaction-id": {
+        const method = (url.searchParams.get("method") ?? "GET").toUpperCase();
+        const path = url.searchParams.get("path");
+        if (!path) {
+          this.send(res, 400, { error: "Missing path parameter" });
+          return;
+        }
+        await this.warmUp();
+        const transactionId = await this.client.generateTransactionId(method, path);
+        this.send(res, 200, { transactionId, method, path, age: this.client.age });
+        return;
+      }
+
+      case "GET /keys": {
+        await this.warmUp();
+        await this.client.getKeyMaterial();
+        this.send(res, 200, { ...this.snapshot(), age: this.client.age });
+        return;
+      }
+
+      case "POST /refresh": {
+        await this.refresh();
+        this.send(res, 200, { ...this.snapshot(), age: this.client.age });
+        return;
+      }
+
+      case "GET /health": {
+        const warm = this.client.peek() !== null;
+        this.send(res, warm ? 200 : 503, {
+          status: warm ? "ok" : this.lastError ? "error" : "starting",
+          warm,
+          age: this.client.age,
+          clockOffset: this.client.clockOffset,
+          lastError: this.lastError ? String(this.lastError) : null,
+        });
+        return;
+      }
+
+      default:
+        this.send(res, 404, { error: `Not found: ${route}` });
+    }
+  }
+
+  /**
+   * Exports the loaded key material as a snapshot
+   * @returns Key material snapshot
+   * @private
+   */
+  private snapshot() {
+    const material = this.client.peek();
+    if (!material) {
+      throw new Error("Key material is not loaded");
+    }
+    return exportSnapshot(
+      material,
+      undefined,
+      new Date(Date.now() - (this.client.age ?? 0))
+    );
+  }
+
+  /**
+   * Sends an error response
+   * @param res Server response
+   * @param error Error to report
+   * @private
+   */
+  private sendError(res: ServerResponse, error: unknown): void {
+    this.lastError = error;
+    const details =
+      error instanceof TransactionIdError
+        ? { stage: error.stage, status: error.status, url: error.url }
+        : {};
+    this.send(res, 503, {
+      error: error instanceof Error ? error.message : String(error),
+      ...details,
+    });
+  }
+
+  /**
+   * Sends a JSON response
+   * @param res Server response
+   * @param status HTTP status
+   * @param body Response body
+   * @private
+   */
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
+
+export default TransactionIdServer;
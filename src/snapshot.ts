@@ -0,0 +1,153 @@
+/**
+ * Serializable key material snapshots
+ *
+ * This module converts key material to and from a versioned JSON snapshot
+ * so that one process can fetch it from X and share it with others that
+ * never touch the network or linkedom.
+ */
+import ClientTransaction, { ClientTransactionOptions } from "./client";
+import { X_BASE_URL } from "./request";
+import { KeyMaterial } from "./transaction";
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Versioned JSON representation of key material
+ */
+export interface KeyMaterialSnapshot extends KeyMaterial {
+  /** Snapshot format version */
+  version: typeof SNAPSHOT_VERSION;
+  /** URL of the homepage the material was extracted from */
+  sourceUrl: string;
+  /** ISO 8601 time the material was captured, and the clock offset measured */
+  capturedAt: string;
+}
+
+/**
+ * Creates a snapshot from key material
+ * @param material Key material from create function
+ * @param sourceUrl URL of the homepage the material was extracted from
+ * @param capturedAt Time the material was captured (defaults to now)
+ * @returns Key material snapshot
+ */
+function exportSnapshot(
+  material: KeyMaterial,
+  sourceUrl: string = X_BASE_URL,
+  capturedAt: Date = new Date()
+): KeyMaterialSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    key: material.key,
+    animationKey: material.animationKey,
+    rowIndex: material.rowIndex,
+    keyByteIndices: [...material.keyByteIndices],
+    onDemandHash: material.onDemandHash,
+    ...(material.clockOffset !== undefined && { clockOffset: material.clockOffset }),
+    sourceUrl,
+    capturedAt: capturedAt.toISOString(),
+  };
+}
+
+/**
+ * Validates an untrusted value, such as parsed JSON, as a snapshot
+ * @param value Value to validate
+ * @returns The value typed as a snapshot
+ */
+function validateSnapshot(value: unknown): KeyMaterialSnapshot {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Invalid snapshot: expected an object");
+  }
+  const snapshot = value as Record<string, unknown>;
+
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+  }
+  for (const field of ["key", "animationKey", "sourceUrl"]) {
+    if (typeof snapshot[field] !== "string" || !snapshot[field]) {
+      throw new Error(`Invalid snapshot: ${field} must be a non-empty string`);
+    }
+  }
+  if (typeof snapshot.onDemandHash !== "string") {
+    throw new Error("Invalid snapshot: onDemandHash must be a string");
+  }
+  if (!isByteIndex(snapshot.rowIndex)) {
+    throw new Error("Invalid snapshot: rowIndex must be a non-negative integer");
+  }
+  if (
+    !Array.isArray(snapshot.keyByteIndices) ||
+    !snapshot.keyByteIndices.length ||
+    !snapshot.keyByteIndices.every(isByteIndex)
+  ) {
+    throw new Error(
+      "Invalid snapshot: keyByteIndices must be a non-empty array of non-negative integers"
+    );
+  }
+  if (
+    typeof snapshot.capturedAt !== "string" ||
+    Number.isNaN(Date.parse(snapshot.capturedAt))
+  ) {
+    throw new Error("Invalid snapshot: capturedAt must be an ISO 8601 date");
+  }
+  if (
+    snapshot.clockOffset !== undefined &&
+    (typeof snapshot.clockOffset !== "number" || !Number.isFinite(snapshot.clockOffset))
+  ) {
+    throw new Error("Invalid snapshot: clockOffset must be a finite number");
+  }
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(snapshot.key as string)) {
+    throw new Error("Invalid snapshot: key must be base64 encoded");
+  }
+
+  return snapshot as unknown as KeyMaterialSnapshot;
+}
+
+/**
+ * Rebuilds a ClientTransaction from a snapshot without fetching anything
+ *
+ * The returned instance never expires its material unless a TTL is given.
+ *
+ * @param snapshot Snapshot to load, validated before use
+ * @param options Optional ClientTransaction options
+ * @returns ClientTransaction using the snapshot's key material
+ */
+function fromSnapshot(
+  snapshot: unknown,
+  options: ClientTransactionOptions = {}
+): ClientTransaction {
+  const { capturedAt, ...rest } = validateSnapshot(snapshot);
+
+  return new ClientTransaction({
+    ttl: Infinity,
+    ...options,
+    material: toKeyMaterial(rest),
+    createdAt: Date.parse(capturedAt),
+  });
+}
+
+/**
+ * Picks the key material fields of a validated snapshot
+ * @param snapshot Validated snapshot
+ * @returns Key material, with the clock offset if the snapshot has one
+ */
+function toKeyMaterial(snapshot: Omit<KeyMaterialSnapshot, "capturedAt">): KeyMaterial {
+  const { key, animationKey, rowIndex, keyByteIndices, onDemandHash, clockOffset } = snapshot;
+  return {
+    key,
+    animationKey,
+    rowIndex,
+    keyByteIndices,
+    onDemandHash,
+    ...(clockOffset !== undefined && { clockOffset }),
+  };
+}
+
+/**
+ * Checks whether a value is a non-negative integer
+ * @param value Value to check
+ * @returns True if the value can index a key byte
+ */
+function isByteIndex(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+export { exportSnapshot, validateSnapshot, fromSnapshot, toKeyMaterial };
@@ -0,0 +1,145 @@
+/**
+ * SVG path data parsing
+ *
+ * This module tokenizes the "d" attribute of SVG path elements into
+ * commands and numeric arguments, used to read the frame rows of X's
+ * loading animation.
+ */
+
+// Number of arguments taken by one repetition of each command
+const ARGUMENT_COUNTS: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  Z: 0,
+};
+
+const COMMAND_REGEX = /[MLHVCSQTZ]/i;
+const NUMBER_REGEX = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const SEPARATOR_REGEX = /[\s,]+/y;
+
+/**
+ * Command of SVG path data with its arguments
+ */
+export interface PathCommand {
+  /** Command letter in upper case, such as M, L or C */
+  command: string;
+  /** Whether the command was written in lower case (relative coordinates) */
+  relative: boolean;
+  /** Numeric arguments in the order they were written */
+  args: number[];
+  /** Position of the command letter in the path data */
+  offset: number;
+}
+
+/**
+ * Parses SVG path data into commands
+ *
+ * Numbers may carry signs, decimals and exponents, and may be separated by
+ * whitespace, commas or nothing at all (as in "1-2" or ".5.5"). Arguments
+ * following a command without a new letter repeat that command, so their
+ * count must be a multiple of the command's argument count. Arguments are
+ * returned as written; relative coordinates are not resolved.
+ *
+ * @param pathData Value of a path's "d" attribute
+ * @returns Commands in the order they appear
+ */
+function parsePathData(pathData: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let current: PathCommand | null = null;
+  let position = skipSeparators(pathData, 0);
+
+  while (position < pathData.length) {
+    const char = pathData[position];
+
+    if (/[a-z]/i.test(char)) {
+      if (!COMMAND_REGEX.test(char)) {
+        throw new Error(`Unsupported path command "${char}" at position ${position}`);
+      }
+      if (current) {
+        checkArguments(current);
+      }
+      current = {
+        command: char.toUpperCase(),
+        relative: char !== char.toUpperCase(),
+        args: [],
+        offset: position,
+      };
+      commands.push(current);
+      position = skipSeparators(pathData, position + 1);
+      continue;
+    }
+
+    NUMBER_REGEX.lastIndex = position;
+    const match = NUMBER_REGEX.exec(pathData);
+    if (!match) {
+      throw new Error(`Unexpected "${char}" at position ${position}`);
+    }
+    if (!current) {
+      throw new Error(`Path data must start with a command, found "${match[0]}"`);
+    }
+    if (current.command === "Z") {
+      throw new Error(`Command Z at position ${current.offset} takes no arguments`);
+    }
+    current.args.push(parseFloat(match[0]));
+    position = skipSeparators(pathData, position + match[0].length);
+  }
+
+  if (current) {
+    checkArguments(current);
+  }
+  return commands;
+}
+
+/**
+ * Groups the arguments of path data into rows, one per curve command
+ *
+ * Each C (or c) command starts a row holding its arguments followed by
+ * those of any other commands up to the next curve command. Commands
+ * before the first curve, such as the initial moveto, are skipped.
+ *
+ * @param commands Parsed path commands
+ * @returns Rows of numbers
+ */
+function getCurveRows(commands: PathCommand[]): number[][] {
+  const rows: number[][] = [];
+  for (const { command, args } of commands) {
+    if (command === "C") {
+      rows.push([...args]);
+    } else if (rows.length) {
+      rows[rows.length - 1].push(...args);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Moves past whitespace and commas
+ * @param pathData Path data
+ * @param position Position to start from
+ * @returns Position of the next token
+ */
+function skipSeparators(pathData: string, position: number): number {
+  SEPARATOR_REGEX.lastIndex = position;
+  return SEPARATOR_REGEX.test(pathData) ? SEPARATOR_REGEX.lastIndex : position;
+}
+
+/**
+ * Throws if a command has the wrong number of arguments
+ * @param command Parsed command
+ */
+function checkArguments({ command, relative, args, offset }: PathCommand): void {
+  const count = ARGUMENT_COUNTS[command];
+  if (count && (args.length === 0 || args.length % count !== 0)) {
+    throw new Error(
+      `Command ${relative ? command.toLowerCase() : command} at position ${offset} expects a multiple of ${count} arguments, got ${args.length}`
+    );
+  }
+}
+
+export { parsePathData, getCurveRows };
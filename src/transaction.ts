@@ -8,103 +8,143 @@ import Cubic from "./cubic";
 import { interpolate } from "./interpolate";
 import { convertRotationToMatrix } from "./rotation";
 import { floatToHex, isOdd } from "./utils";
-import { Document } from "linkedom/types/interface/document";
-import { Element } from "linkedom/types/interface/element";
-
-export function decodeBase64(input: string): Uint8Array {
-  return Buffer.from(input, 'base64');
-}
-
-/**
- * Encodes a byte array to a base64 string
- * @param input Byte array to encode
- * @returns Base64 encoded string
- */
-export function encodeBase64(input: Uint8Array): string {
-  return Buffer.from(input).toString('base64');
-}
-
-// Regular expression definitions for extracting necessary data from X's homepage
-const ON_DEMAND_FILE_REGEX = /(['"])ondemand\.s\1:\s*(['"])([\w]*)\2/;
-const INDICES_REGEX = /\(\w\[(\d{1,2})\],\s*16\)/g;
+import { discardResponse, readText, request, RequestOptions } from "./request";
+import { getProfileHeaders } from "./profiles";
+import { measureClockOffset } from "./clock";
+import { getCurveRows, parsePathData, PathCommand } from "./svg";
+import { HomePageSource, readHomePage } from "./homepage";
+import type { HtmlDocument } from "./html";
+import {
+  findIndices,
+  findOnDemandChunk,
+  IndicesResult,
+  OnDemandChunk,
+} from "./discovery";
+import {
+  AnimationFrameError,
+  IndicesExtractionError,
+  Logger,
+  OnDemandFetchError,
+  VerificationKeyError,
+} from "./errors";
+import {
+  decodeBase64,
+  encodeBase64,
+  getRandomValuesSource,
+  getWebCrypto,
+} from "./runtime";
+
+
+export { decodeBase64, encodeBase64 };
 
 // Constants moved from class to module level
 const ADDITIONAL_RANDOM_NUMBER = 3;
 const DEFAULT_KEYWORD = "obfiowerehiring";
+const TIME_EPOCH = 1682924400;
+const TIME_NOW_LENGTH = 4;
+const HASH_PREFIX_LENGTH = 16;
+const FRAME_ROW_LENGTH = 11;
 
 // Helper functions - these were previously private methods
 
 /**
- * Extracts key byte indices from homepage document
- * @param homePageDocument Document to use
- * @returns Tuple of [rowIndex, keyByteIndices]
+ * Finds the ondemand file in the homepage
+ * @param homePage Homepage source
+ * @returns Ondemand chunk, or null if not found
  */
-async function getIndices(
-  homePageDocument: Document
-): Promise<[number, number[]]> {
-  const keyByteIndices: string[] = [];
-  const response = homePageDocument;
+function getOnDemandChunk(homePage: HomePageSource): OnDemandChunk | null {
+  return findOnDemandChunk(homePage.html);
+}
 
-  // Extract content from response as string
-  const responseStr = response.documentElement.outerHTML;
+/**
+ * Extracts the ondemand file URL from the homepage
+ *
+ * The file contains the key byte indices. Callers that fetch it themselves
+ * can pass its text to createFromSources.
+ *
+ * @param homePage Homepage HTML string or document
+ * @returns Ondemand file URL, or null if not found
+ */
+export function getOnDemandFileUrl(homePage: string | HtmlDocument): string | null {
+  return getOnDemandChunk(readHomePage(homePage))?.url ?? null;
+}
 
-  const onDemandFileMatch = ON_DEMAND_FILE_REGEX.exec(responseStr);
+/**
+ * Extracts key byte indices from ondemand file source
+ * @param onDemandJs Text of the ondemand file
+ * @returns Key byte indices and the strategy that found them
+ */
+function getIndices(onDemandJs: string): IndicesResult {
+  const indices = findIndices(onDemandJs);
+  if (!indices) {
+    throw new IndicesExtractionError("Couldn't get KEY_BYTE indices");
+  }
+  return indices;
+}
 
-  if (onDemandFileMatch) {
-    const onDemandFileUrl = `https://abs.twimg.com/responsive-web/client-web/ondemand.s.${onDemandFileMatch[3]}a.js`;
+/**
+ * Fetches the ondemand file referenced by the homepage
+ * @param homePage Homepage source
+ * @param options Optional request options for the ondemand file fetch
+ * @returns Text of the ondemand file and the clock offset measured from its response
+ */
+async function fetchOnDemandFile(
+  homePage: HomePageSource,
+  options: RequestOptions = {}
+): Promise<{ source: string; clockOffset: number | null }> {
+  const onDemandFileUrl = getOnDemandChunk(homePage)?.url ?? null;
+  if (!onDemandFileUrl) {
+    throw new IndicesExtractionError(
+      "Couldn't find the ondemand file in the page source"
+    );
+  }
 
-    try {
-      // Fetch ondemand file
-      const onDemandFileResponse = await fetch(onDemandFileUrl);
-
-      if (!onDemandFileResponse.ok) {
-        throw new Error(
-          `Failed to fetch ondemand file: ${onDemandFileResponse.statusText}`
-        );
-      }
-
-      const responseText = await onDemandFileResponse.text();
-
-      // Extract indices using regex
-      let match: RegExpExecArray | null;
-      INDICES_REGEX.lastIndex = 0; // Reset regex index
-      while ((match = INDICES_REGEX.exec(responseText)) !== null) {
-        keyByteIndices.push(match[1]);
-      }
-    } catch (error) {
-      console.error("Error fetching ondemand file:", error);
-    }
+  // Fetch ondemand file
+  let onDemandFileResponse: Response;
+  const requestStart = Date.now();
+  try {
+    onDemandFileResponse = await request(
+      onDemandFileUrl,
+      { headers: getProfileHeaders(options.profile, "script") },
+      options
+    );
+  } catch (error) {
+    throw new OnDemandFetchError("Failed to fetch ondemand file", {
+      url: onDemandFileUrl,
+      cause: error,
+    });
   }
 
-  if (!keyByteIndices.length) {
-    throw new Error("Couldn't get KEY_BYTE indices");
+  if (!onDemandFileResponse.ok) {
+    await discardResponse(onDemandFileResponse);
+    throw new OnDemandFetchError(
+      `Failed to fetch ondemand file: ${onDemandFileResponse.statusText}`,
+      { status: onDemandFileResponse.status, url: onDemandFileUrl }
+    );
   }
 
-  // Convert strings to numbers
-  const numericIndices = keyByteIndices.map((index) => parseInt(index, 10));
-  return [numericIndices[0], numericIndices.slice(1)];
+  const clockOffset = measureClockOffset(onDemandFileResponse, requestStart);
+  try {
+    return { source: await readText(onDemandFileResponse), clockOffset };
+  } catch (error) {
+    throw new OnDemandFetchError("Failed to read ondemand file", {
+      status: onDemandFileResponse.status,
+      url: onDemandFileUrl,
+      cause: error,
+    });
+  }
 }
 
 /**
- * Extracts verification key from document
- * @param response Document to use
+ * Extracts verification key from the homepage
+ * @param homePage Homepage source
  * @returns X site verification key
  */
-function getKey(response: Document): string {
-  let content = "";
-
-  // Extract key from meta tag
-  const element = response.querySelector(
-    "[name='twitter-site-verification']"
-  );
-  if (element) {
-    content = element.getAttribute("content") ?? "";
-  }
-
-  if (!content) {
-    throw new Error("Couldn't get key from the page source");
+function getKey(homePage: HomePageSource): string {
+  if (!homePage.key) {
+    throw new VerificationKeyError("Couldn't get key from the page source");
   }
-  return content;
+  return homePage.key;
 }
 
 /**
@@ -112,60 +152,63 @@ function getKey(response: Document): string {
  * @param key Base64 encoded key string
  * @returns Array of byte values
  */
-function getKeyBytes(key: string): number[] {
+export function getKeyBytes(key: string): number[] {
   return Array.from(decodeBase64(key));
 }
 
 /**
- * Gets animation frames from document
- * @param response Document to use
- * @returns Array of frame elements
- */
-function getFrames(response: Document): Element[] {
-  return Array.from(response.querySelectorAll("[id^='loading-x-anim']"));
-}
-
-/**
- * Parses SVG paths to extract coordinate arrays
+ * Parses the SVG path of an animation frame into rows of numbers
+ *
+ * The frame's path is found by structure: the first path element inside
+ * the frame whose data contains curve commands, skipping background paths
+ * such as "M0 0h24v24H0z". Each curve command starts a row.
+ *
  * @param keyBytes Key bytes from site verification
- * @param response Document to use
- * @param frames Optional frame elements if already fetched
+ * @param homePage Homepage source
  * @returns 2D array of frame coordinates
  */
-function get2dArray(
-  keyBytes: number[],
-  response: Document,
-  frames?: Element[]
-): number[][] {
-  if (!frames) {
-    frames = getFrames(response);
+function get2dArray(keyBytes: number[], homePage: HomePageSource): number[][] {
+  const { frames } = homePage;
+  if (!frames.length) {
+    throw new AnimationFrameError("Couldn't get animation frames from the page source");
   }
 
-  if (!frames || !frames.length) {
-    return [[]]; // Return empty 2D array
+  const frameIndex = keyBytes[5] % 4;
+  const frame = frames[frameIndex];
+  if (!frame) {
+    throw new AnimationFrameError(
+      `Animation frame ${frameIndex} not found, the page has ${frames.length} frames`
+    );
   }
 
-  // 1. Select frame and navigate DOM to get "d" attribute
-  const frame = frames[keyBytes[5] % 4];
-  const firstChild = frame.children[0] as Element;
-  const targetChild = firstChild.children[1] as Element;
-  const dAttr = targetChild.getAttribute("d");
-  if (dAttr === null) {
-    return [];
+  if (!frame.length) {
+    throw new AnimationFrameError(`Animation frame ${frameIndex} has no path elements`);
   }
 
-  // 2. Remove first 9 chars and split by "C"
-  const items = dAttr.substring(9).split("C");
+  for (const [pathIndex, pathData] of frame.entries()) {
+    if (!pathData) {
+      continue;
+    }
+    let commands: PathCommand[];
+    try {
+      commands = parsePathData(pathData);
+    } catch (error) {
+      throw new AnimationFrameError(
+        `Animation frame ${frameIndex} path ${pathIndex} has invalid path data: ${
+          (error as Error).message
+        }`,
+        { cause: error }
+      );
+    }
+    const rows = getCurveRows(commands);
+    if (rows.length) {
+      return rows;
+    }
+  }
 
-  // 3. Extract and convert numbers from each segment
-  return items.map((item: string) => {
-    // a) Replace non-digits with spaces
-    const cleaned = item.replace(/[^\d]+/g, " ").trim();
-    // b) Split by whitespace
-    const parts = cleaned === "" ? [] : cleaned.split(/\s+/);
-    // c) Convert string to integers
-    return parts.map((str: string) => parseInt(str, 10));
-  });
+  throw new AnimationFrameError(
+    `Animation frame ${frameIndex} has no path with curve data`
+  );
 }
 
 /**
@@ -186,13 +229,63 @@ function solve(
   return rounding ? Math.floor(result) : Math.round(result * 100) / 100;
 }
 
+/**
+ * Intermediate values of animating a single frame row
+ */
+export interface AnimateTrace {
+  /** Starting RGBA color */
+  fromColor: number[];
+  /** Ending RGBA color */
+  toColor: number[];
+  /** Starting rotation in degrees */
+  fromRotation: number[];
+  /** Ending rotation in degrees */
+  toRotation: number[];
+  /** Cubic bezier curve parameters */
+  curves: number[];
+  /** Output of Cubic.getValue for the target time */
+  cubicValue: number;
+  /** Interpolated RGBA color */
+  color: number[];
+  /** Interpolated rotation in degrees */
+  rotation: number[];
+  /** Transformation matrix for the interpolated rotation */
+  matrix: number[];
+  /** Hex segments joined to form the animation key */
+  hexSegments: string[];
+  /** Resulting animation key */
+  animationKey: string;
+}
+
+/**
+ * Every intermediate value used to compute an animation key
+ */
+export interface AnimationKeyTrace extends AnimateTrace {
+  /** Key bytes from site verification */
+  keyBytes: number[];
+  /** Index of the animation frame used (keyBytes[5] % 4) */
+  frameIndex: number;
+  /** Index of the key byte selecting the frame row */
+  rowIndex: number;
+  /** Index of the frame row used (keyBytes[rowIndex] % 16) */
+  rowIndexValue: number;
+  /** Indices of the key bytes used to compute the frame time */
+  keyByteIndices: number[];
+  /** Frame time in milliseconds, rounded to a multiple of 10 */
+  frameTime: number;
+  /** Frame time normalized to the total animation time */
+  targetTime: number;
+  /** Raw frame row from get2dArray */
+  frameRow: number[];
+}
+
 /**
  * Generates animation key from frame data
  * @param frames Array of frame values
  * @param targetTime Target time for animation
- * @returns Animation key string
+ * @returns Intermediate values and the animation key string
  */
-function animate(frames: number[], targetTime: number): string {
+function animate(frames: number[], targetTime: number): AnimateTrace {
   const fromColor = frames.slice(0, 3).concat(1).map(Number);
   const toColor = frames.slice(3, 6).concat(1).map(Number);
   const fromRotation = [0.0];
@@ -231,23 +324,35 @@ function animate(frames: number[], targetTime: number): string {
 
   strArr.push("0", "0");
   const animationKey = strArr.join("").replace(/[.-]/g, "");
-  return animationKey;
+  return {
+    fromColor,
+    toColor,
+    fromRotation,
+    toRotation,
+    curves,
+    cubicValue: val,
+    color,
+    rotation,
+    matrix,
+    hexSegments: strArr,
+    animationKey,
+  };
 }
 
 /**
- * Generates animation key used in transaction ID
+ * Generates animation key used in transaction ID, recording every intermediate value
  * @param keyBytes Key bytes from site verification
- * @param response Document to use
+ * @param homePage Homepage source
  * @param rowIndex Row index to use
  * @param keyByteIndices Key byte indices to use
- * @returns Animation key string
+ * @returns Animation key trace
  */
-function getAnimationKey(
-  keyBytes: number[], 
-  response: Document,
+function traceAnimationKey(
+  keyBytes: number[],
+  homePage: HomePageSource,
   rowIndex: number,
   keyByteIndices: number[]
-): string {
+): AnimationKeyTrace {
   const totalTime = 4096;
 
   const rowIndexValue = keyBytes[rowIndex] % 16;
@@ -258,52 +363,216 @@ function getAnimationKey(
   }, 1);
   frameTime = Math.round(frameTime / 10) * 10;
 
-  const arr = get2dArray(keyBytes, response);
+  const arr = get2dArray(keyBytes, homePage);
   if (!arr || !arr[rowIndexValue]) {
-    throw new Error("Invalid frame data");
+    throw new AnimationFrameError(
+      `Animation frame has no row ${rowIndexValue}`
+    );
   }
 
   const frameRow = arr[rowIndexValue];
+  if (frameRow.length < FRAME_ROW_LENGTH) {
+    throw new AnimationFrameError(
+      `Animation frame row ${rowIndexValue} has ${frameRow.length} values, expected ${FRAME_ROW_LENGTH}`
+    );
+  }
   const targetTime = frameTime / totalTime;
-  const animationKey = animate(frameRow, targetTime);
 
-  return animationKey;
+  return {
+    keyBytes,
+    frameIndex: keyBytes[5] % 4,
+    rowIndex,
+    rowIndexValue,
+    keyByteIndices,
+    frameTime,
+    targetTime,
+    frameRow,
+    ...animate(frameRow, targetTime),
+  };
 }
 
 /**
- * Creates key and animationKey from homepage document
- * @param homePageDocument Document to extract data from
- * @returns Object with key and animationKey
+ * Generates animation key used in transaction ID
+ * @param keyBytes Key bytes from site verification
+ * @param homePage Homepage source
+ * @param rowIndex Row index to use
+ * @param keyByteIndices Key byte indices to use
+ * @returns Animation key string
  */
-export async function create(homePageDocument: Document): Promise<{ key: string, animationKey: string }> {
-  try {
-    // Initialize indices
-    const [rowIndex, keyByteIndices] = await getIndices(homePageDocument);
+function getAnimationKey(
+  keyBytes: number[], 
+  homePage: HomePageSource,
+  rowIndex: number,
+  keyByteIndices: number[]
+): string {
+  return traceAnimationKey(keyBytes, homePage, rowIndex, keyByteIndices)
+    .animationKey;
+}
+
+/**
+ * Explains how the animation key is computed from the homepage
+ *
+ * Returns every intermediate value so it can be compared step by step
+ * against the web client or another implementation.
+ *
+ * @param homePage Homepage HTML string or document
+ * @param rowIndex Row index from the key material
+ * @param keyByteIndices Key byte indices from the key material
+ * @returns Animation key trace
+ */
+export function explainAnimationKey(
+  homePage: string | HtmlDocument,
+  rowIndex: number,
+  keyByteIndices: number[]
+): AnimationKeyTrace {
+  const source = readHomePage(homePage);
+  const keyBytes = getKeyBytes(getKey(source));
+  return traceAnimationKey(keyBytes, source, rowIndex, keyByteIndices);
+}
 
-    // Get key from document
-    const key = getKey(homePageDocument);
-    if (!key) throw new Error("Failed to get key");
+/**
+ * Key material extracted from X's homepage
+ */
+export interface KeyMaterial {
+  /** X site verification key */
+  key: string;
+  /** Animation key derived from the loading animation frames */
+  animationKey: string;
+  /** Index of the key byte selecting the frame row */
+  rowIndex: number;
+  /** Indices of the key bytes used to compute the frame time */
+  keyByteIndices: number[];
+  /** Hash of the ondemand file the indices were extracted from */
+  onDemandHash: string;
+  /** Discovery strategies that located the ondemand file and the indices */
+  strategies?: DiscoveryStrategies;
+  /** Milliseconds the server clock was ahead of the local clock when fetched */
+  clockOffset?: number;
+}
+
+/**
+ * Discovery strategies used while extracting key material
+ */
+export interface DiscoveryStrategies {
+  /** Strategy that located the ondemand file, or null if it was not found */
+  onDemand: string | null;
+  /** Strategy that located the key byte indices */
+  indices: string;
+  /** Whether any fallback strategy was used */
+  fallback: boolean;
+}
 
-    // Convert key to byte array
-    const keyBytes = getKeyBytes(key);
+/**
+ * Options for create
+ */
+export interface CreateOptions extends RequestOptions {
+  /** Receives diagnostic messages */
+  logger?: Logger;
+}
+
+/**
+ * Creates key material from homepage and ondemand file sources
+ *
+ * This function does not perform any network requests, so it can be used
+ * with sources from a browser capture, a HAR file or a cache. HTML strings
+ * are read with the built-in scanner, without linkedom; documents give the
+ * same key material.
+ *
+ * @param homePage Homepage HTML string or document
+ * @param onDemandJs Text of the ondemand file
+ * @returns Key material including key and animationKey
+ */
+export function createFromSources(
+  homePage: string | HtmlDocument,
+  onDemandJs: string
+): KeyMaterial {
+  return createFromHomePage(readHomePage(homePage), onDemandJs);
+}
+
+/**
+ * Creates key material from a homepage source and the ondemand file
+ * @param homePage Homepage source
+ * @param onDemandJs Text of the ondemand file
+ * @returns Key material including key and animationKey
+ */
+function createFromHomePage(
+  homePage: HomePageSource,
+  onDemandJs: string
+): KeyMaterial {
+  // Initialize indices
+  const indices = getIndices(onDemandJs);
+  const { rowIndex, keyByteIndices } = indices;
+  const onDemandChunk = getOnDemandChunk(homePage);
+
+  // Get key from the homepage
+  const key = getKey(homePage);
+
+  // Convert key to byte array
+  const keyBytes = getKeyBytes(key);
 
-    // Generate animation key
-    const animationKey = getAnimationKey(keyBytes, homePageDocument, rowIndex, keyByteIndices);
+  // Generate animation key
+  const animationKey = getAnimationKey(keyBytes, homePage, rowIndex, keyByteIndices);
+
+  return {
+    key,
+    animationKey,
+    rowIndex,
+    keyByteIndices,
+    onDemandHash: onDemandChunk?.hash ?? "",
+    strategies: {
+      onDemand: onDemandChunk?.strategy ?? null,
+      indices: indices.strategy,
+      fallback: Boolean(onDemandChunk?.fallback || indices.fallback),
+    },
+  };
+}
 
-    return { key, animationKey };
+/**
+ * Creates key and animationKey from the homepage
+ * @param homePage Homepage HTML string or document
+ * @param options Optional request options for the ondemand file fetch and logger
+ * @returns Key material including key and animationKey
+ */
+export async function create(
+  homePage: string | HtmlDocument,
+  options: CreateOptions = {}
+): Promise<KeyMaterial> {
+  try {
+    const source = readHomePage(homePage);
+    const onDemand = await fetchOnDemandFile(source, options);
+    const material = createFromHomePage(source, onDemand.source);
+    return onDemand.clockOffset === null
+      ? material
+      : { ...material, clockOffset: onDemand.clockOffset };
   } catch (error) {
-    console.error("Failed to initialize:", error);
+    options.logger?.error?.("Failed to initialize", error);
     throw error;
   }
 }
 
+/**
+ * Options controlling the time and randomness of a transaction ID
+ */
+export interface GenerateOptions {
+  /** Timestamp in seconds since X's transaction ID epoch, overrides clock */
+  timeNow?: number;
+  /** Returns the current Unix time in milliseconds (defaults to Date.now) */
+  clock?: () => number;
+  /** Milliseconds added to the clock, such as a measured server clock offset */
+  clockOffset?: number;
+  /** Byte (0-255) every other byte is XORed with, overrides random */
+  randomByte?: number;
+  /** Returns a random byte (0-255) (defaults to mathRandomByte) */
+  random?: () => number;
+}
+
 /**
  * Generates a transaction ID for X API requests
  * @param method HTTP method (GET, POST, etc.)
  * @param path API endpoint path
  * @param key Key from create function
  * @param animationKey Animation key from create function
- * @param timeNow Optional timestamp (defaults to current time)
+ * @param timeNow Optional timestamp, or options for the clock and random source
  * @returns Base64 encoded transaction ID
  */
 export async function generateTransactionId(
@@ -311,9 +580,84 @@ export async function generateTransactionId(
   path: string,
   key: string,
   animationKey: string,
-  timeNow?: number
+  timeNow?: number | GenerateOptions
 ): Promise<string> {
-  timeNow = timeNow || Math.floor((Date.now() - 1682924400 * 1000) / 1000);
+  const options = toGenerateOptions(timeNow);
+  const time = resolveTimeNow(options);
+
+  const keyBytes = getKeyBytes(key);
+
+  // Calculate SHA-256 hash
+  const hashBytes = await getHashBytes(method, path, time, animationKey);
+
+  const randomNum = resolveRandomByte(options);
+  return encodeTransactionId(keyBytes, time, hashBytes, randomNum);
+}
+
+/**
+ * Normalizes the timeNow argument of generateTransactionId
+ * @param timeNow Optional timestamp or options
+ * @returns Generate options
+ */
+export function toGenerateOptions(
+  timeNow?: number | GenerateOptions
+): GenerateOptions {
+  return typeof timeNow === "number" ? { timeNow } : timeNow ?? {};
+}
+
+/**
+ * Resolves the timestamp to embed in a transaction ID
+ * @param options Generate options
+ * @returns Timestamp in seconds since X's transaction ID epoch
+ */
+export function resolveTimeNow(options: GenerateOptions): number {
+  return options.timeNow ?? currentTimeNow(options.clock, options.clockOffset);
+}
+
+/**
+ * Resolves the random byte every other byte is XORed with
+ * @param options Generate options
+ * @returns Random byte
+ */
+export function resolveRandomByte(options: GenerateOptions): number {
+  const randomNum = options.randomByte ?? (options.random ?? mathRandomByte)();
+  if (!Number.isInteger(randomNum) || randomNum < 0 || randomNum > 255) {
+    throw new Error(`Invalid random byte: ${randomNum}`);
+  }
+  return randomNum;
+}
+
+/**
+ * Builds the data hashed into a transaction ID
+ * @param method HTTP method
+ * @param path API endpoint path
+ * @param timeNow Timestamp in seconds since the epoch
+ * @param animationKey Animation key from create function
+ * @returns Hash input string
+ */
+export function getHashInput(
+  method: string,
+  path: string,
+  timeNow: number,
+  animationKey: string
+): string {
+  return `${method}!${path}!${timeNow}${DEFAULT_KEYWORD}${animationKey}`;
+}
+
+/**
+ * Assembles and encodes a transaction ID
+ * @param keyBytes Key bytes from site verification
+ * @param timeNow Timestamp in seconds since the epoch
+ * @param hashBytes SHA-256 hash of the hash input
+ * @param randomNum Random byte every other byte is XORed with
+ * @returns Base64 encoded transaction ID
+ */
+export function encodeTransactionId(
+  keyBytes: ArrayLike<number>,
+  timeNow: number,
+  hashBytes: ArrayLike<number>,
+  randomNum: number
+): string {
   const timeNowBytes = [
     timeNow & 0xff,
     (timeNow >> 8) & 0xff,
@@ -321,22 +665,10 @@ export async function generateTransactionId(
     (timeNow >> 24) & 0xff,
   ];
 
-  const keyBytes = getKeyBytes(key);
-
-  // Generate hash data
-  const data = `${method}!${path}!${timeNow}${DEFAULT_KEYWORD}${animationKey}`;
-
-  // Calculate SHA-256 hash
-  const encoder = new TextEncoder();
-  const dataBuffer = encoder.encode(data);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", dataBuffer);
-  const hashBytes = Array.from(new Uint8Array(hashBuffer));
-
-  const randomNum = Math.floor(Math.random() * 256);
   const bytesArr = [
-    ...keyBytes,
+    ...Array.from(keyBytes),
     ...timeNowBytes,
-    ...hashBytes.slice(0, 16),
+    ...Array.from(hashBytes).slice(0, HASH_PREFIX_LENGTH),
     ADDITIONAL_RANDOM_NUMBER,
   ];
 
@@ -345,4 +677,191 @@ export async function generateTransactionId(
     ...bytesArr.map((item) => item ^ randomNum),
   ]);
   return encodeBase64(out).replace(/=/g, "");
-}
\ No newline at end of file
+}
+
+/**
+ * Returns a random byte using Math.random
+ * @returns Random integer from 0 to 255
+ */
+export function mathRandomByte(): number {
+  return Math.floor(Math.random() * 256);
+}
+
+/**
+ * Returns a cryptographically secure random byte using crypto.getRandomValues
+ *
+ * On Node.js 16 and 18, which have no globalThis.crypto, await
+ * loadWebCrypto once first. generateTransactionId does that itself before
+ * asking for the random byte.
+ *
+ * @returns Random integer from 0 to 255
+ */
+export function secureRandomByte(): number {
+  const source = getRandomValuesSource();
+  if (!source) {
+    throw new Error(
+      "WebCrypto is not loaded: await loadWebCrypto() once before calling secureRandomByte on runtimes without globalThis.crypto"
+    );
+  }
+  return source.getRandomValues(new Uint8Array(1))[0];
+}
+
+/**
+ * Returns the current time in seconds since X's transaction ID epoch
+ * @param clock Returns the current Unix time in milliseconds
+ * @param clockOffset Milliseconds added to the clock
+ * @returns Seconds elapsed since the epoch
+ */
+function currentTimeNow(clock: () => number = Date.now, clockOffset = 0): number {
+  return Math.floor((clock() + clockOffset - TIME_EPOCH * 1000) / 1000);
+}
+
+/**
+ * Calculates the SHA-256 hash embedded in a transaction ID
+ * @param method HTTP method
+ * @param path API endpoint path
+ * @param timeNow Timestamp in seconds since the epoch
+ * @param animationKey Animation key from create function
+ * @returns Array of hash bytes
+ */
+async function getHashBytes(
+  method: string,
+  path: string,
+  timeNow: number,
+  animationKey: string
+): Promise<number[]> {
+  const data = getHashInput(method, path, timeNow, animationKey);
+  const encoder = new TextEncoder();
+  const webCrypto = await getWebCrypto();
+  const hashBuffer = await webCrypto.subtle.digest("SHA-256", encoder.encode(data));
+  return Array.from(new Uint8Array(hashBuffer));
+}
+
+/**
+ * Fields contained in a decoded transaction ID
+ */
+export interface DecodedTransactionId {
+  /** Leading random byte every other byte was XORed with */
+  randomByte: number;
+  /** Bytes of the site verification key */
+  keyBytes: number[];
+  /** Raw little-endian timestamp bytes */
+  timeNowBytes: number[];
+  /** Timestamp in seconds since X's transaction ID epoch */
+  timeNow: number;
+  /** Timestamp as a Unix time in milliseconds */
+  timestamp: number;
+  /** First 16 bytes of the SHA-256 hash */
+  hashBytes: number[];
+  /** Trailing constant byte, expected to be 3 */
+  additionalNumber: number;
+}
+
+/**
+ * Decodes a transaction ID into its individual fields
+ * @param transactionId Base64 encoded transaction ID, with or without padding
+ * @returns Decoded transaction ID fields
+ */
+export function decodeTransactionId(transactionId: string): DecodedTransactionId {
+  const bytes = Array.from(decodeBase64(transactionId));
+  const keyLength = bytes.length - 1 - TIME_NOW_LENGTH - HASH_PREFIX_LENGTH - 1;
+  if (keyLength < 0) {
+    throw new Error(`Transaction ID is too short: ${bytes.length} bytes`);
+  }
+
+  // Undo the XOR with the leading random byte
+  const randomByte = bytes[0];
+  const payload = bytes.slice(1).map((item) => item ^ randomByte);
+
+  const keyBytes = payload.slice(0, keyLength);
+  const timeNowBytes = payload.slice(keyLength, keyLength + TIME_NOW_LENGTH);
+  const hashBytes = payload.slice(
+    keyLength + TIME_NOW_LENGTH,
+    keyLength + TIME_NOW_LENGTH + HASH_PREFIX_LENGTH
+  );
+  const additionalNumber = payload[payload.length - 1];
+
+  const timeNow =
+    (timeNowBytes[0] |
+      (timeNowBytes[1] << 8) |
+      (timeNowBytes[2] << 16) |
+      (timeNowBytes[3] << 24)) >>>
+    0;
+
+  return {
+    randomByte,
+    keyBytes,
+    timeNowBytes,
+    timeNow,
+    timestamp: (timeNow + TIME_EPOCH) * 1000,
+    hashBytes,
+    additionalNumber,
+  };
+}
+
+/**
+ * Result of verifying a transaction ID against known inputs
+ */
+export interface TransactionIdVerification {
+  /** Whether all checks passed */
+  valid: boolean;
+  /** Whether the embedded key bytes match the given key */
+  keyBytesMatch: boolean;
+  /** Whether the embedded hash prefix matches the given inputs */
+  hashMatch: boolean;
+  /** Whether the trailing byte equals the expected constant */
+  additionalNumberMatch: boolean;
+  /** Seconds elapsed between the embedded timestamp and now */
+  ageSeconds: number;
+  /** Hash prefix recomputed from the given inputs */
+  expectedHashBytes: number[];
+  /** Decoded transaction ID fields */
+  decoded: DecodedTransactionId;
+}
+
+/**
+ * Verifies a transaction ID against the method, path and key material
+ * @param transactionId Base64 encoded transaction ID
+ * @param method HTTP method (GET, POST, etc.)
+ * @param path API endpoint path
+ * @param key Key from create function
+ * @param animationKey Animation key from create function
+ * @param timeNow Optional reference timestamp for the age (defaults to current time)
+ * @returns Verification result
+ */
+export async function verifyTransactionId(
+  transactionId: string,
+  method: string,
+  path: string,
+  key: string,
+  animationKey: string,
+  timeNow?: number
+): Promise<TransactionIdVerification> {
+  const decoded = decodeTransactionId(transactionId);
+  timeNow = timeNow ?? currentTimeNow();
+
+  const keyBytes = getKeyBytes(key);
+  const keyBytesMatch =
+    keyBytes.length === decoded.keyBytes.length &&
+    keyBytes.every((value, index) => value === decoded.keyBytes[index]);
+
+  const expectedHashBytes = (
+    await getHashBytes(method, path, decoded.timeNow, animationKey)
+  ).slice(0, HASH_PREFIX_LENGTH);
+  const hashMatch = expectedHashBytes.every(
+    (value, index) => value === decoded.hashBytes[index]
+  );
+
+  const additionalNumberMatch =
+    decoded.additionalNumber === ADDITIONAL_RANDOM_NUMBER;
+
+  return {
+    valid: keyBytesMatch && hashMatch && additionalNumberMatch,
+    keyBytesMatch,
+    hashMatch,
+    additionalNumberMatch,
+    ageSeconds: timeNow - decoded.timeNow,
+    expectedHashBytes,
+    decoded,
+  };
+}
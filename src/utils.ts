@@ -4,52 +4,104 @@
  * This module provides helper functions for handling X domain migration,
  * number conversions, and other utility operations.
  */
-import { parseHTML } from "linkedom";
-import { Document } from "linkedom/types/interface/document";
-import { Element } from "linkedom/types/interface/element";
+import CookieJar from "./cookies";
+import { getDescendantTags, HtmlTag, scanTags } from "./html";
+import { getProfileHeaders } from "./profiles";
+import { measureClockOffset } from "./clock";
+import {
+  discardResponse,
+  mergeHeaders,
+  readText,
+  request,
+  RequestOptions,
+  X_BASE_URL,
+} from "./request";
+import { MigrationError } from "./errors";
+
+const MAX_REDIRECTS = 10;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const DOCUMENT_COOKIE_REGEX = /document\.cookie\s*=\s*(["'])(.*?)\1/g;
+const GUEST_TOKEN_REGEX = /gt=([0-9]+);/;
+
+/**
+ * Options for performXMigration
+ */
+export interface MigrationOptions extends RequestOptions {
+  /** Cookie jar carried across every hop (defaults to a new jar) */
+  cookieJar?: CookieJar;
+}
 
 /**
- * Handles X.com domain migration process and returns the HTML document
+ * Homepage reached after X's migration, as raw HTML
+ */
+export interface HomePageResult {
+  /** Raw HTML of the final document */
+  html: string;
+  /** URL the final document was served from */
+  finalUrl: string;
+  /** Every URL requested, in order, ending with finalUrl */
+  redirectChain: string[];
+  /** Cookies collected across every hop, reusable for API calls */
+  cookies: CookieJar;
+  /** Guest token set by the homepage, or null if none was found */
+  guestToken: string | null;
+  /** Milliseconds the server clock is ahead of the local clock, or null if unknown */
+  clockOffset: number | null;
+}
+
+/**
+ * State shared by the requests of one migration
+ */
+interface MigrationSession {
+  options: RequestOptions;
+  cookies: CookieJar;
+  redirectChain: string[];
+  /** Set once fetch hid a manual redirect, as browsers do */
+  hidesRedirects?: boolean;
+}
+
+/**
+ * Page fetched during the migration
+ */
+interface MigrationPage {
+  html: string;
+  url: string;
+  clockOffset: number | null;
+}
+
+/**
+ * Performs X.com's domain migration and returns the homepage HTML
  *
- * This function navigates through X's migration redirects and forms
- * to obtain the final HTML document needed for transaction ID generation.
+ * Redirects are followed one hop at a time so the cookies set by every
+ * response, and by document.cookie assignments in every page, are carried
+ * to the next request. The Date header of the final page gives the
+ * server clock offset. Pages are read with the built-in HTML scanner, so
+ * linkedom is not needed.
  *
- * @returns Promise resolving to the Document object from X's homepage
+ * @param options Optional request options and cookie jar
+ * @returns Promise resolving to the final HTML, cookies and guest token
  */
-async function handleXMigration(): Promise<Document> {
-  // Set headers to mimic a browser request
-  const headers = {
-    'accept':"text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7",
-    "accept-language": "en-US",
-    "cache-control": "no-cache",
-    'pragma': "no-cache",
-    'priority': "u=0, i",
-    "sec-ch-ua":'"Google Chrome";v="135", "Not-A.Brand";v="8", "Chromium";v="135"',
-    "sec-ch-ua-mobile": "?0",
-    "sec-ch-ua-platform": '"Windows"',
-    "sec-fetch-dest": "document",
-    "sec-fetch-mode": "navigate",
-    "sec-fetch-site": "none",
-    "sec-fetch-user": "?1",
-    "upgrade-insecure-requests": "1",
-    "user-agent":
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36",
+async function fetchHomePage(
+  options: MigrationOptions = {}
+): Promise<HomePageResult> {
+  const { cookieJar = new CookieJar(), ...requestOptions } = options;
+  const session: MigrationSession = {
+    options: requestOptions,
+    cookies: cookieJar,
+    redirectChain: [],
   };
 
-  // Fetch X.com homepage
-  const response = await fetch("https://x.com", {
-    headers,
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch X homepage: ${response.statusText}`);
-  }
-
-  const htmlText = await response.text();
+  // Set headers to mimic a browser navigation
+  const headers = getProfileHeaders(requestOptions.profile, "document");
 
-  // Parse HTML using linkedom
-  let dom = parseHTML(htmlText);
-  let document = dom.window.document;
+  // Fetch X.com homepage
+  let page = await fetchMigrationPage(
+    X_BASE_URL,
+    { headers },
+    session,
+    "fetch X homepage"
+  );
+  let tags = scanTags(page.html);
 
   // Check for migration redirection links
   const migrationRedirectionRegex = new RegExp(
@@ -57,72 +109,196 @@ async function handleXMigration(): Promise<Document> {
     "i"
   );
 
-  const metaRefresh = document.querySelector("meta[http-equiv='refresh']");
-  const metaContent = metaRefresh
-    ? metaRefresh.getAttribute("content") || ""
-    : "";
+  const metaRefresh = tags.find(
+    (tag) =>
+      !tag.closing &&
+      tag.name === "meta" &&
+      tag.attributes["http-equiv"] === "refresh"
+  );
+  const metaContent = metaRefresh?.attributes.content ?? "";
 
   const migrationRedirectionUrl =
     migrationRedirectionRegex.exec(metaContent) ||
-    migrationRedirectionRegex.exec(htmlText);
+    migrationRedirectionRegex.exec(page.html);
 
   if (migrationRedirectionUrl) {
     // Follow redirection URL
-    const redirectResponse = await fetch(migrationRedirectionUrl[0]);
-
-    if (!redirectResponse.ok) {
-      throw new Error(
-        `Failed to follow migration redirection: ${redirectResponse.statusText}`
-      );
-    }
-
-    const redirectHtml = await redirectResponse.text();
-    dom = parseHTML(redirectHtml);
-    document = dom.window.document;
+    page = await fetchMigrationPage(
+      migrationRedirectionUrl[0],
+      { headers },
+      session,
+      "follow migration redirection"
+    );
+    tags = scanTags(page.html);
   }
 
   // Handle migration form if present
   const migrationForm =
-    document.querySelector("form[name='f']") ||
-    document.querySelector("form[action='https://x.com/x/migrate']");
+    findForm(tags, "name", "f") ??
+    findForm(tags, "action", "https://x.com/x/migrate");
 
-  if (migrationForm) {
-    const url =
-      migrationForm.getAttribute("action") || "https://x.com/x/migrate";
-    const method = migrationForm.getAttribute("method") || "POST";
+  if (migrationForm !== null) {
+    const { attributes } = tags[migrationForm];
+    const url = new URL(
+      attributes.action || `${X_BASE_URL}/x/migrate`,
+      page.url
+    ).toString();
+    const method = attributes.method || "POST";
 
     // Collect form input fields
-    const requestPayload = new FormData();
+    const requestPayload = new URLSearchParams();
 
-    const inputFields = migrationForm.querySelectorAll("input");
-    for (const element of Array.from(inputFields)) {
-      const name = (element as Element).getAttribute("name");
-      const value = (element as Element).getAttribute("value");
-      if (name && value) {
+    for (const tag of getDescendantTags(tags, migrationForm)) {
+      const { name, value } = tag.attributes;
+      if (tag.name === "input" && !tag.closing && name && value) {
         requestPayload.append(name, value);
       }
     }
 
     // Submit form using POST request
-    const formResponse = await fetch(url, {
-      method: method,
-      body: requestPayload,
+    page = await fetchMigrationPage(
+      url,
+      {
+        method: method,
+        body: requestPayload,
+        headers,
+      },
+      session,
+      "submit migration form"
+    );
+  }
+
+  return {
+    html: page.html,
+    finalUrl: page.url,
+    redirectChain: session.redirectChain,
+    cookies: session.cookies,
+    guestToken:
+      session.cookies.get("gt", X_BASE_URL) ??
+      GUEST_TOKEN_REGEX.exec(page.html)?.[1] ??
+      null,
+    clockOffset: page.clockOffset,
+  };
+}
+
+/**
+ * Finds the first form with an attribute value
+ * @param tags Tags of the page
+ * @param attribute Attribute name
+ * @param value Attribute value
+ * @returns Index of the form's start tag, or null if not found
+ */
+function findForm(tags: HtmlTag[], attribute: string, value: string): number | null {
+  const index = tags.findIndex(
+    (tag) => !tag.closing && tag.name === "form" && tag.attributes[attribute] === value
+  );
+  return index === -1 ? null : index;
+}
+
+/**
+ * Fetches one page of the migration process, following redirects hop by hop
+ * @param url URL to request
+ * @param init Request init
+ * @param session Migration session collecting cookies and visited URLs
+ * @param action Description of the step used in error messages
+ * @returns Promise resolving to the response body and the URL it came from
+ */
+async function fetchMigrationPage(
+  url: string,
+  init: RequestInit,
+  session: MigrationSession,
+  action: string
+): Promise<MigrationPage> {
+  let currentUrl = url;
+  let currentInit = init;
+  let response: Response;
+  let requestStart: number;
+
+  const send = async (sendInit: RequestInit): Promise<Response> => {
+    try {
+      return await request(currentUrl, sendInit, session.options);
+    } catch (error) {
+      throw new MigrationError(`Failed to ${action}`, { url: currentUrl, cause: error });
+    }
+  };
+
+  for (let hop = 0; ; hop++) {
+    session.redirectChain.push(currentUrl);
+    requestStart = Date.now();
+    const cookie = session.cookies.getCookieHeader(currentUrl);
+    const headers = mergeHeaders(currentInit.headers, cookie ? { cookie } : {});
+    response = await send({
+      ...currentInit,
       headers,
+      redirect: session.hidesRedirects ? "follow" : "manual",
     });
+    // Browsers hide manual redirects, so let fetch follow them there. Only a
+    // GET is sent again; later requests are followed from the start
+    if (response.type === "opaqueredirect") {
+      session.hidesRedirects = true;
+      const method = currentInit.method?.toUpperCase() ?? "GET";
+      if (method !== "GET") {
+        throw new MigrationError(
+          `Failed to ${action}: fetch hid the redirect of a ${method} request, which is not sent twice`,
+          { url: currentUrl }
+        );
+      }
+      response = await send({ ...currentInit, headers });
+    }
+    if (session.hidesRedirects && response.url && response.url !== currentUrl) {
+      currentUrl = response.url;
+      session.redirectChain.push(currentUrl);
+    }
+    session.cookies.storeResponse(response, currentUrl);
 
-    if (!formResponse.ok) {
-      throw new Error(
-        `Failed to submit migration form: ${formResponse.statusText}`
-      );
+    const location = REDIRECT_STATUSES.includes(response.status)
+      ? response.headers.get("location")
+      : null;
+    if (!location) {
+      break;
+    }
+    // Release the redirect's connection before following it
+    await discardResponse(response);
+    if (hop >= MAX_REDIRECTS) {
+      throw new MigrationError(`Failed to ${action}: too many redirects`, {
+        status: response.status,
+        url: currentUrl,
+      });
     }
 
-    const formHtml = await formResponse.text();
-    dom = parseHTML(formHtml);
-    document = dom.window.document;
+    // Like browsers, turn the request into a GET unless the redirect keeps the method
+    if (response.status === 303 || (response.status <= 302 && currentInit.method?.toUpperCase() === "POST")) {
+      currentInit = { headers: currentInit.headers };
+    }
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+
+  if (!response.ok) {
+    await discardResponse(response);
+    throw new MigrationError(`Failed to ${action}: ${response.statusText}`, {
+      status: response.status,
+      url: currentUrl,
+    });
+  }
+  const clockOffset = measureClockOffset(response, requestStart);
+
+  let html: string;
+  try {
+    html = await readText(response);
+  } catch (error) {
+    throw new MigrationError(`Failed to ${action}`, {
+      status: response.status,
+      url: currentUrl,
+      cause: error,
+    });
+  }
+
+  // Keep the cookies the page sets from its inline scripts
+  for (const [, , cookie] of html.matchAll(DOCUMENT_COOKIE_REGEX)) {
+    session.cookies.setCookie(cookie, currentUrl);
   }
 
-  // Return final DOM document
-  return document;
+  return { html, url: currentUrl, clockOffset };
 }
 
 /**
@@ -185,5 +361,5 @@ function isOdd(num: number): number {
   }
   return 0.0;
 }
-export { handleXMigration, floatToHex, isOdd };
+export { fetchHomePage, floatToHex, isOdd };
 
@@ -0,0 +1,293 @@
+/**
+ * Key material change detection
+ *
+ * This module provides a watcher that periodically re-derives key material
+ * from X's homepage, compares it with the previous material and emits typed
+ * events describing what changed.
+ */
+import ClientTransaction from "./client";
+import { Logger } from "./errors";
+import { RequestOptions } from "./request";
+import { create, KeyMaterial } from "./transaction";
+import { fetchHomePage } from "./utils";
+
+const DEFAULT_INTERVAL = 30 * 60 * 1000;
+
+/**
+ * Field of the key material that can change between checks
+ */
+export type KeyMaterialField =
+  | "key"
+  | "animationKey"
+  | "indices"
+  | "onDemandHash";
+
+/**
+ * Value of a field before and after a change
+ */
+export interface Change<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * Row index and key byte indices read from the ondemand file
+ */
+export interface Indices {
+  rowIndex: number;
+  keyByteIndices: number[];
+}
+
+/**
+ * Events emitted by KeyMaterialWatcher and the data passed to listeners
+ */
+export interface KeyMaterialWatcherEvents {
+  /** Key material was derived, whether or not it changed */
+  checked: { material: KeyMaterial; previous: KeyMaterial | null };
+  /** At least one field changed; lists every changed field */
+  changed: { fields: KeyMaterialField[]; before: KeyMaterial; after: KeyMaterial };
+  /** The twitter-site-verification key was rotated */
+  keyRotated: Change<string>;
+  /** The animation key changed */
+  animationKeyChanged: Change<string>;
+  /** The row index or key byte indices changed */
+  indicesChanged: Change<Indices>;
+  /** The ondemand file hash changed */
+  onDemandChanged: Change<string>;
+  /** Key material could not be derived; the previous material is kept */
+  extractionFailed: { error: unknown; previous: KeyMaterial | null };
+}
+
+/**
+ * Name of a KeyMaterialWatcher event
+ */
+export type KeyMaterialWatcherEvent = keyof KeyMaterialWatcherEvents;
+
+/**
+ * Listener for a KeyMaterialWatcher event
+ */
+export type KeyMaterialWatcherListener<E extends KeyMaterialWatcherEvent> = (
+  data: KeyMaterialWatcherEvents[E]
+) => void;
+
+/**
+ * Listeners of each event, keyed by event name
+ */
+type ListenerStore = {
+  [E in KeyMaterialWatcherEvent]?: Set<KeyMaterialWatcherListener<E>>;
+};
+
+/**
+ * Options for KeyMaterialWatcher
+ */
+export interface KeyMaterialWatcherOptions {
+  /** Time in milliseconds between checks (defaults to 30 minutes) */
+  interval?: number;
+  /** Derives key material (defaults to refreshing the client, or fetching the homepage) */
+  load?: () => Promise<KeyMaterial>;
+  /** Client refreshed by every check, so its cache follows the watcher */
+  client?: ClientTransaction;
+  /** Request options for the homepage and ondemand file fetches */
+  request?: RequestOptions;
+  /** Receives diagnostic messages */
+  logger?: Logger;
+  /** Key material the first check is compared with */
+  material?: KeyMaterial;
+}
+
+/**
+ * Periodically re-derives key material and emits events when it changes
+ *
+ * Every check emits "checked" or "extractionFailed". When the material
+ * differs from the previous check, one event per changed field is emitted,
+ * followed by "changed" listing all of them. Checks never overlap.
+ */
+class KeyMaterialWatcher {
+  private interval: number;
+  private load: () => Promise<KeyMaterial>;
+  private logger?: Logger;
+  private material: KeyMaterial | null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<KeyMaterial | null> | null = null;
+  private listeners: ListenerStore = {};
+
+  /**
+   * Creates a new KeyMaterialWatcher instance
+   * @param options Optional watcher options
+   */
+  constructor(options: KeyMaterialWatcherOptions = {}) {
+    const { client, request = {}, logger } = options;
+    this.interval = options.interval ?? DEFAULT_INTERVAL;
+    this.logger = logger;
+    this.material = options.material ?? client?.peek() ?? null;
+    this.load =
+      options.load ??
+      (client
+        ? () => client.refresh()
+        : async () => {
+            const { html } = await fetchHomePage(request);
+            return create(html, { ...request, logger });
+          });
+  }
+
+  /**
+   * Key material from the last successful check
+   */
+  get current(): KeyMaterial | null {
+    return this.material;
+  }
+
+  /**
+   * Whether periodic checks are running
+   */
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Adds a listener for an event
+   * @param event Event name
+   * @param listener Function called with the event data
+   * @returns Function removing the listener
+   */
+  on<E extends KeyMaterialWatcherEvent>(
+    event: E,
+    listener: KeyMaterialWatcherListener<E>
+  ): () => void {
+    // Narrow the store to this event so its Set can be created and typed
+    const store: { [K in E]?: Set<KeyMaterialWatcherListener<K>> } = this.listeners;
+    const listeners = (store[event] ??= new Set());
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a listener for an event
+   * @param event Event name
+   * @param listener Listener added with on
+   */
+  off<E extends KeyMaterialWatcherEvent>(
+    event: E,
+    listener: KeyMaterialWatcherListener<E>
+  ): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Starts periodic checks, running the first one immediately
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.check(), this.interval);
+    this.timer.unref?.();
+    this.check();
+  }
+
+  /**
+   * Stops periodic checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Derives key material once and emits events for any changes
+   *
+   * A check already in flight is shared instead of starting another one.
+   *
+   * @returns New key material, or null if extraction failed
+   */
+  check(): Promise<KeyMaterial | null> {
+    if (!this.pending) {
+      this.pending = this.runCheck().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Derives key material and compares it with the previous material
+   * @returns New key material, or null if extraction failed
+   * @private
+   */
+  private async runCheck(): Promise<KeyMaterial | null> {
+    const previous = this.material;
+    let material: KeyMaterial;
+    try {
+      material = await this.load();
+    } catch (error) {
+      this.logger?.error?.("Key material check failed", error);
+      this.emit("extractionFailed", { error, previous });
+      return null;
+    }
+
+    this.material = material;
+    this.emit("checked", { material, previous });
+    if (!previous) {
+      return material;
+    }
+
+    const fields: KeyMaterialField[] = [];
+    if (previous.key !== material.key) {
+      fields.push("key");
+      this.emit("keyRotated", { before: previous.key, after: material.key });
+    }
+    if (previous.animationKey !== material.animationKey) {
+      fields.push("animationKey");
+      this.emit("animationKeyChanged", {
+        before: previous.animationKey,
+        after: material.animationKey,
+      });
+    }
+    if (
+      previous.rowIndex !== material.rowIndex ||
+      previous.keyByteIndices.join(",") !== material.keyByteIndices.join(",")
+    ) {
+      fields.push("indices");
+      this.emit("indicesChanged", {
+        before: { rowIndex: previous.rowIndex, keyByteIndices: previous.keyByteIndices },
+        after: { rowIndex: material.rowIndex, keyByteIndices: material.keyByteIndices },
+      });
+    }
+    if (previous.onDemandHash !== material.onDemandHash) {
+      fields.push("onDemandHash");
+      this.emit("onDemandChanged", {
+        before: previous.onDemandHash,
+        after: material.onDemandHash,
+      });
+    }
+
+    if (fields.length) {
+      this.logger?.debug?.("Key material changed", fields);
+      this.emit("changed", { fields, before: previous, after: material });
+    }
+    return material;
+  }
+
+  /**
+   * Calls every listener of an event, isolating listener errors
+   * @param event Event name
+   * @param data Event data
+   * @private
+   */
+  private emit<E extends KeyMaterialWatcherEvent>(
+    event: E,
+    data: KeyMaterialWatcherEvents[E]
+  ): void {
+    for (const listener of Array.from(this.listeners[event] ?? [])) {
+      try {
+        listener(data);
+      } catch (error) {
+        this.logger?.error?.(`Listener for ${event} failed`, error);
+      }
+    }
+  }
+}
+
+export default KeyMaterialWatcher;
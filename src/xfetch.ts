@@ -0,0 +1,138 @@
+/**
+ * Fetch wrapper that signs X API requests
+ *
+ * This module provides a fetch-compatible function that adds the
+ * x-client-transaction-id header to requests to X's API and passes every
+ * other request through untouched.
+ */
+import ClientTransaction, { ClientTransactionOptions } from "./client";
+import { mergeHeaders } from "./request";
+
+const TRANSACTION_ID_HEADER = "x-client-transaction-id";
+const API_HOST_REGEX = /^api\.(?:x|twitter)\.com$/i;
+const WEB_HOST_REGEX = /^(?:www\.)?(?:x|twitter)\.com$/i;
+
+/**
+ * Options for createXFetch
+ */
+export interface XFetchOptions extends ClientTransactionOptions {
+  /** Client providing the key material (defaults to one created from these options) */
+  client?: ClientTransaction;
+  /** Fetch implementation used for outgoing requests (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Retry once with refreshed key material when the response is a 404 */
+  retryOnNotFound?: boolean;
+}
+
+/**
+ * Checks whether a URL points at X's API
+ * @param url URL to check
+ * @returns True for api.x.com and x.com/i/api URLs
+ */
+function isXApiUrl(url: URL): boolean {
+  if (API_HOST_REGEX.test(url.hostname)) {
+    return true;
+  }
+  return WEB_HOST_REGEX.test(url.hostname) && url.pathname.startsWith("/i/api/");
+}
+
+/**
+ * Checks whether a fetch input is a Request rather than a string or URL
+ * @param input Fetch input
+ * @returns True for Request objects
+ */
+function isRequest(input: RequestInfo | URL): input is Request {
+  return typeof input === "object" && !(input instanceof URL) && "url" in input;
+}
+
+/**
+ * Reads the URL of a fetch input without constructing a Request
+ *
+ * Building a Request from a Request input would consume its body, so the
+ * input could no longer be passed through.
+ *
+ * @param input Fetch input
+ * @returns Parsed URL, or null if it is not absolute
+ */
+function getInputUrl(input: RequestInfo | URL): URL | null {
+  const href = isRequest(input) ? input.url : String(input);
+  try {
+    return new URL(href);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates a fetch function that adds x-client-transaction-id to X API requests
+ *
+ * The transaction ID is computed from the request method and the URL
+ * pathname, never the query string.
+ *
+ * @param options Optional client, fetch implementation and retry behaviour
+ * @returns Fetch-compatible function
+ */
+function createXFetch(options: XFetchOptions = {}): typeof fetch {
+  const { client: givenClient, fetch: givenFetch, retryOnNotFound = false, ...clientOptions } = options;
+  const client = givenClient ?? new ClientTransaction(clientOptions);
+
+  const signedFetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    // Resolved per request so runtimes without a global fetch can still import this
+    const fetchImpl = givenFetch ?? (globalThis as { fetch?: typeof fetch }).fetch;
+    if (!fetchImpl) {
+      throw new Error("fetch is not available: pass a fetch implementation in the options");
+    }
+
+    const url = getInputUrl(input);
+    if (!url || !isXApiUrl(url)) {
+      return fetchImpl(input, init);
+    }
+
+    // Plain objects only, so runtimes without global Request and Headers
+    // classes work with an injected fetch
+    const method = (init?.method ?? (isRequest(input) ? input.method : "GET")).toUpperCase();
+    const headers = mergeHeaders(
+      isRequest(input) ? input.headers : undefined,
+      mergeHeaders(init?.headers)
+    );
+
+    // Keep an unread copy of the body for the retry
+    let retry: { input: RequestInfo | URL; init?: RequestInit } | null = null;
+    let firstInit = init;
+    if (retryOnNotFound) {
+      const body = init?.body;
+      if (body && typeof (body as ReadableStream).tee === "function") {
+        const [first, second] = (body as ReadableStream).tee();
+        firstInit = { ...init, body: first };
+        retry = { input, init: { ...init, body: second } };
+      } else {
+        retry = { input: isRequest(input) ? input.clone() : input, init };
+      }
+    }
+
+    const send = async (target: RequestInfo | URL, targetInit?: RequestInit): Promise<Response> => {
+      const transactionId = await client.generateTransactionId(method, url.pathname);
+      return fetchImpl(target, {
+        ...targetInit,
+        headers: { ...headers, [TRANSACTION_ID_HEADER]: transactionId },
+      });
+    };
+
+    const response = await send(input, firstInit);
+    if (response.status !== 404 || !retry) {
+      return response;
+    }
+
+    // A 404 is the symptom of stale key material; release the first body
+    await response.body?.cancel();
+    await client.refresh();
+    return send(retry.input, retry.init);
+  };
+
+  return signedFetch as typeof fetch;
+}
+
+export { createXFetch };